@@ -1,4 +1,5 @@
 import { createRequire } from 'node:module';
+import { resolve } from 'node:path';
 import typescript from '@rollup/plugin-typescript';
 import license from 'rollup-plugin-license';
 import { getExternals, getBanner, tsConfig } from '../../rollup.config.mjs';
@@ -6,6 +7,12 @@ import { getExternals, getBanner, tsConfig } from '../../rollup.config.mjs';
 const require = createRequire(import.meta.url);
 const pkg = require('./package.json');
 
+// The custom element imports the core from the package instead of bundling
+// a second copy of it
+const coreInput = resolve('src/index.ts');
+const elementExternals = (id) => id === coreInput || getExternals(pkg)(id);
+const elementPaths = (id) => (id === coreInput ? pkg.name : id);
+
 export default [
   // ES module (for bundlers) build
   {
@@ -41,4 +48,37 @@ export default [
     ],
     plugins: [typescript(tsConfig), license(getBanner(pkg))],
   },
+  // Custom element, as its own entry so the core keeps a default export only
+  {
+    input: 'src/element.ts',
+    external: elementExternals,
+    makeAbsoluteExternalsRelative: false,
+    output: [
+      {
+        file: 'dist/element.mjs',
+        format: 'esm',
+        sourcemap: true,
+        paths: elementPaths,
+      },
+    ],
+    plugins: [typescript(tsConfig), license(getBanner(pkg))],
+  },
+  {
+    input: 'src/element.ts',
+    external: elementExternals,
+    makeAbsoluteExternalsRelative: false,
+    output: [
+      {
+        name: 'SimpleBarElement',
+        file: 'dist/element.cjs',
+        format: 'umd',
+        sourcemap: true,
+        globals: {
+          [coreInput]: 'SimpleBarCore',
+        },
+        paths: elementPaths,
+      },
+    ],
+    plugins: [typescript(tsConfig), license(getBanner(pkg))],
+  },
 ];
@@ -0,0 +1,11 @@
+export type Easing = (t: number) => number;
+
+export const linear: Easing = (t) => t;
+
+export const easeInOutQuad: Easing = (t) =>
+  t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+export const easeOutCubic: Easing = (t) => 1 - Math.pow(1 - t, 3);
+
+export const easeInOutCubic: Easing = (t) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
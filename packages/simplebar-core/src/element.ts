@@ -0,0 +1,230 @@
+import SimpleBarCore from './index';
+import type { SimpleBarEventMap, SimpleBarOptions } from './index';
+import { canUseDOM, getOptions } from './helpers';
+
+// Options that can't be written as an attribute
+const IGNORED_OPTIONS = [
+  'classNames',
+  'scrollableNode',
+  'contentNode',
+  'generateDOM',
+  'loadMore',
+  'persistStorage',
+  'virtual',
+  'renderer',
+  'snap',
+];
+
+const EVENTS: (keyof SimpleBarEventMap)[] = [
+  'scrollstart',
+  'scroll',
+  'scrollend',
+  'dragstart',
+  'dragend',
+  'reachstart',
+  'reachend',
+  'overflowchange',
+  'stickchange',
+  'snapchange',
+];
+
+function getAttributeOptions() {
+  return Object.keys(SimpleBarCore.defaultOptions).filter(
+    (key) => IGNORED_OPTIONS.indexOf(key) === -1,
+  );
+}
+
+function toAttributeName(option: string) {
+  return option.replace(/[A-Z]/g, (chr) => `-${chr.toLowerCase()}`);
+}
+
+function toOptionName(attribute: string) {
+  return attribute.replace(/-(.)/g, (_, chr: string) => chr.toUpperCase());
+}
+
+/**
+ * Custom elements require a native class constructor, which the ES5 output
+ * doesn't have, so the element is constructed through Reflect instead
+ */
+const BaseElement: typeof HTMLElement = canUseDOM
+  ? (function () {
+      function BaseElement(this: HTMLElement) {
+        return Reflect.construct(HTMLElement, [], this.constructor);
+      }
+
+      BaseElement.prototype = Object.create(HTMLElement.prototype);
+      BaseElement.prototype.constructor = BaseElement;
+
+      return BaseElement as unknown as typeof HTMLElement;
+    })()
+  : (function () {} as unknown as typeof HTMLElement);
+
+/**
+ * <simple-bar> element, its attributes are the options of SimpleBarCore
+ * written in kebab-case (auto-hide="false"). Add the shadow attribute to
+ * build the scrollbars in a shadow root, the content is then slotted in.
+ * The document styles don't reach the shadow root, its SimpleBar styles are
+ * given to defineSimpleBarElement().
+ */
+export class SimpleBarElement extends BaseElement {
+  simpleBar: SimpleBarCore | null = null;
+  containerEl: HTMLElement | null = null;
+  styleEl: HTMLStyleElement | null = null;
+
+  // Set on registration, SimpleBarCore isn't loaded yet at this point
+  static observedAttributes: string[] = [];
+  // The SimpleBar CSS, or a constructed stylesheet to adopt
+  static styles: string | CSSStyleSheet | null = null;
+
+  connectedCallback() {
+    this.mount();
+  }
+
+  disconnectedCallback() {
+    this.unMount();
+  }
+
+  attributeChangedCallback(
+    name: string,
+    oldValue: string | null,
+    value: string | null,
+  ) {
+    const key = toOptionName(name);
+
+    if (
+      oldValue === value ||
+      !this.simpleBar ||
+      getAttributeOptions().indexOf(key) === -1
+    )
+      return;
+
+    const option = key as keyof SimpleBarOptions;
+    const options = this.getOptions();
+
+    // A removed attribute goes back to its default value
+    this.simpleBar.setOptions({
+      [option]:
+        option in options
+          ? options[option]
+          : SimpleBarCore.defaultOptions[option],
+    });
+  }
+
+  /**
+   * Get the options from the attributes, converted like the data-simplebar
+   * attributes of the HTML API
+   */
+  getOptions() {
+    const attributeOptions = getAttributeOptions();
+    const options: { [key: string]: unknown } = getOptions(this.attributes, '');
+
+    Object.keys(options).forEach((key) => {
+      if (attributeOptions.indexOf(key) === -1) {
+        delete options[key];
+      }
+    });
+
+    return options as SimpleBarOptions;
+  }
+
+  mount() {
+    if (this.simpleBar) return;
+
+    let el: HTMLElement = this;
+
+    if (this.hasAttribute('shadow')) {
+      const shadowRoot = this.shadowRoot || this.attachShadow({ mode: 'open' });
+
+      this.adoptStyles(shadowRoot);
+      this.containerEl =
+        this.containerEl || this.ownerDocument.createElement('div');
+      shadowRoot.appendChild(this.containerEl);
+      el = this.containerEl;
+    }
+
+    this.simpleBar = new SimpleBarCore(el, {
+      ...this.getOptions(),
+      generateDOM: true,
+    });
+
+    const contentEl = this.simpleBar.getContentElement();
+
+    if (el !== this && contentEl) {
+      const slot = this.ownerDocument.createElement('slot');
+
+      slot.addEventListener('slotchange', () => this.simpleBar?.recalculate());
+      contentEl.appendChild(slot);
+    }
+
+    EVENTS.forEach((type) => {
+      this.simpleBar?.on(type, (detail) => {
+        this.dispatchEvent(
+          new CustomEvent(`simplebar-${type}`, { detail, bubbles: true }),
+        );
+      });
+    });
+  }
+
+  /**
+   * Add the SimpleBar styles to the shadow root, once
+   */
+  adoptStyles(shadowRoot: ShadowRoot) {
+    const { styles } = SimpleBarElement;
+
+    if (!styles) return;
+
+    if (typeof styles !== 'string') {
+      if (shadowRoot.adoptedStyleSheets.indexOf(styles) === -1) {
+        shadowRoot.adoptedStyleSheets = [
+          ...shadowRoot.adoptedStyleSheets,
+          styles,
+        ];
+      }
+
+      return;
+    }
+
+    if (!this.styleEl) {
+      this.styleEl = this.ownerDocument.createElement('style');
+      this.styleEl.textContent = styles;
+    }
+
+    if (this.styleEl.parentNode !== shadowRoot) {
+      shadowRoot.insertBefore(this.styleEl, shadowRoot.firstChild);
+    }
+  }
+
+  unMount() {
+    if (!this.simpleBar) return;
+
+    this.simpleBar.unMount();
+    this.simpleBar = null;
+
+    if (this.containerEl) {
+      while (this.containerEl.firstChild) {
+        this.containerEl.removeChild(this.containerEl.firstChild);
+      }
+    }
+  }
+}
+
+/**
+ * Register the SimpleBarElement, as <simple-bar> by default, with the styles
+ * of its shadow roots
+ */
+export function defineSimpleBarElement(
+  tagName = 'simple-bar',
+  styles?: string | CSSStyleSheet,
+) {
+  if (!canUseDOM || !window.customElements) return;
+
+  if (styles) {
+    SimpleBarElement.styles = styles;
+  }
+
+  if (!window.customElements.get(tagName)) {
+    SimpleBarElement.observedAttributes =
+      getAttributeOptions().map(toAttributeName);
+    window.customElements.define(tagName, SimpleBarElement);
+  }
+}
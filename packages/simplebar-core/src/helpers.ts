@@ -19,13 +19,13 @@ export function getElementDocument(element: Element) {
 }
 
 // Helper function to retrieve options from element attributes
-export const getOptions = function (obj: any) {
+export const getOptions = function (obj: any, prefix = 'data-simplebar-') {
   const initialObj: SimpleBarOptions = {};
 
   const options = Array.prototype.reduce.call(
     obj,
     (acc: any, attribute) => {
-      const option = attribute.name.match(/data-simplebar-(.+)/);
+      const option = attribute.name.match(new RegExp(`${prefix}(.+)`));
       if (option) {
         const key: keyof SimpleBarOptions = option[1].replace(
           /\W+(.)/g,
@@ -69,8 +69,64 @@ export function classNamesToQuery(classNames: string) {
   return `.${classNames.split(' ').join('.')}`;
 }
 
+// Roles of the widgets handling the navigation keys themselves
+const WIDGET_ROLES = [
+  'textbox',
+  'slider',
+  'spinbutton',
+  'listbox',
+  'combobox',
+  'grid',
+  'tree',
+  'menu',
+  'menubar',
+  'tablist',
+  'radiogroup',
+  'scrollbar',
+];
+
+// Elements handling the navigation keys themselves: form fields, buttons,
+// links, editable content and the widgets declared with a role
+export function isInteractiveElement(el: EventTarget | null) {
+  if (!el || !(el as HTMLElement).tagName) return false;
+
+  const element = el as HTMLElement;
+  const contentEditable = element.getAttribute('contenteditable');
+  const roles = (element.getAttribute('role') || '').split(' ');
+
+  return (
+    element.isContentEditable ||
+    (contentEditable !== null && contentEditable !== 'false') ||
+    roles.some((role) => WIDGET_ROLES.indexOf(role) !== -1) ||
+    [
+      'INPUT',
+      'TEXTAREA',
+      'SELECT',
+      'BUTTON',
+      'A',
+      'SUMMARY',
+      'AUDIO',
+      'VIDEO',
+      'IFRAME',
+    ].indexOf(element.tagName) !== -1
+  );
+}
+
 export const canUseDOM = !!(
   typeof window !== 'undefined' &&
   window.document &&
   window.document.createElement
 );
+
+export type ElementRoot = Document | ShadowRoot;
+
+// Get the document or the shadow root an element is mounted in
+export function getElementRoot(element: Element): ElementRoot {
+  const root = element && element.getRootNode ? element.getRootNode() : null;
+
+  if (root && (root as ShadowRoot).host && root.nodeType === 11) {
+    return root as ShadowRoot;
+  }
+
+  return getElementDocument(element);
+}
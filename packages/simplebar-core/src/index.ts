@@ -2,6 +2,12 @@ import type { DebouncedFunc } from 'lodash-es';
 import { debounce, throttle } from 'lodash-es';
 import scrollbarWidth from './scrollbar-width';
 import * as helpers from './helpers';
+import * as easings from './easings';
+import type { Easing } from './easings';
+import { memoryStorage, getSessionStorage } from './storage';
+import type { SimpleBarStorage } from './storage';
+
+export type { SimpleBarStorage };
 
 interface Options {
   forceVisible: boolean | Axis;
@@ -14,10 +20,43 @@ interface Options {
   scrollableNode: HTMLElement | null;
   contentNode: HTMLElement | null;
   autoHide: boolean;
+  visibility: SimpleBarVisibility | null;
+  showDelay: number;
+  hideDelay: number;
+  fadeInDuration: number | null;
+  fadeOutDuration: number | null;
+  generateDOM: boolean;
+  keyboardNavigation: boolean;
+  keyboardStep: number;
+  keyboardPageStep: number;
+  ariaScrollbars: boolean;
+  coarsePointerHitArea: number;
+  hoverProximity: number;
+  loadMore: SimpleBarLoadMoreOptions | null;
+  persistKey: string | null;
+  persistStorage: 'memory' | 'session' | SimpleBarStorage;
+  virtual: SimpleBarVirtualOptions | null;
+  stickToEnd: boolean | Axis;
+  scrollShadows: boolean;
+  smoothWheel: boolean;
+  smoothWheelFriction: number;
+  horizontalWheel: boolean;
+  overscrollBehavior: 'auto' | 'contain' | 'none';
+  renderer: SimpleBarRenderer | null;
+  snap: boolean | SimpleBarSnapOptions;
 }
 
 export interface SimpleBarOptions extends Partial<Options> {}
 
+/**
+ * - scroll: visible while scrolling
+ * - hover: visible while the pointer is inside the element or scrolling
+ * - leave: like hover, but hidden right when the pointer leaves
+ * - never / always: never or always visible
+ */
+export type SimpleBarVisibility =
+  'scroll' | 'hover' | 'leave' | 'never' | 'always';
+
 type ClassNames = {
   contentEl: string;
   contentWrapper: string;
@@ -33,7 +72,14 @@ type ClassNames = {
   horizontal: string;
   vertical: string;
   dragging: string;
+  hover: string;
   scrollable: string;
+  canScrollUp: string;
+  canScrollDown: string;
+  canScrollLeft: string;
+  canScrollRight: string;
+  shadow: string;
+  marker: string;
 };
 
 type Axis = 'x' | 'y';
@@ -47,19 +93,170 @@ type AxisProps = {
   dragOffset: number;
   isOverflowing: boolean;
   forceVisible: boolean;
+  isScrolling: boolean;
+  scrollOffset: number;
+  isStickingToEnd: boolean;
   track: {
     size: any;
     el: HTMLElement | null;
     rect: DOMRect | null;
     isVisible: boolean;
+    isHovered: boolean;
   };
   scrollbar: {
     size: any;
+    offset: number;
     el: HTMLElement | null;
     rect: DOMRect | null;
     isVisible: boolean;
   };
 };
+type ScrollDirection = 'forward' | 'backward' | null;
+
+export type SimpleBarScrollEvent = {
+  axis: Axis;
+  // scroll offset from the start of the axis, normalized on RTL
+  offset: number;
+  // scroll progress between 0 and 1
+  percentage: number;
+  direction: ScrollDirection;
+};
+
+export type SimpleBarOverflowEvent = {
+  axis: Axis;
+  isOverflowing: boolean;
+};
+
+export type SimpleBarStickEvent = {
+  axis: Axis;
+  isStickingToEnd: boolean;
+};
+
+export type SimpleBarSnapEvent = {
+  axis: Axis;
+  // index of the snap point nearest to the scroll offset
+  index: number;
+  offset: number;
+};
+
+export type SimpleBarEventMap = {
+  scrollstart: SimpleBarScrollEvent;
+  scroll: SimpleBarScrollEvent;
+  scrollend: SimpleBarScrollEvent;
+  dragstart: SimpleBarScrollEvent;
+  dragend: SimpleBarScrollEvent;
+  reachstart: SimpleBarScrollEvent;
+  reachend: SimpleBarScrollEvent;
+  overflowchange: SimpleBarOverflowEvent;
+  stickchange: SimpleBarStickEvent;
+  snapchange: SimpleBarSnapEvent;
+};
+
+export type SimpleBarEventListener<K extends keyof SimpleBarEventMap> = (
+  event: SimpleBarEventMap[K],
+) => void;
+
+type SimpleBarEventListeners = {
+  [K in keyof SimpleBarEventMap]: SimpleBarEventListener<K>[];
+};
+
+const createEventListeners = (): SimpleBarEventListeners => ({
+  scrollstart: [],
+  scroll: [],
+  scrollend: [],
+  dragstart: [],
+  dragend: [],
+  reachstart: [],
+  reachend: [],
+  overflowchange: [],
+  stickchange: [],
+  snapchange: [],
+});
+
+type ScrollPosition = Partial<Record<Axis, number>>;
+
+export type SimpleBarScrollOptions = {
+  // animation duration in ms, scrolls instantly when 0
+  duration?: number;
+  easing?: keyof typeof easings | Easing;
+  // moves the target to the nearest snap point when snapping, true by default
+  snap?: boolean;
+};
+
+export type SimpleBarScrollIntoViewOptions = SimpleBarScrollOptions & {
+  align?: 'start' | 'center' | 'end' | 'nearest';
+  // space kept between the element and the edge it is aligned to
+  offset?: number;
+};
+
+type LoadMoreEdge = 'start' | 'end';
+
+type LoadMoreAxisOptions = {
+  // distance from the edge in px, or in percentage of the content size ("10%")
+  threshold?: number | string;
+  // "start" for lists growing backward, like a chat history
+  edge?: LoadMoreEdge;
+};
+
+export type SimpleBarLoadMoreOptions = {
+  // a rejected promise is only retried on the next scroll toward the edge
+  onLoadMore: (event: {
+    axis: Axis;
+    edge: LoadMoreEdge;
+  }) => Promise<unknown> | void;
+  // defaults to the end of the vertical axis if no axis is set
+  x?: LoadMoreAxisOptions;
+  y?: LoadMoreAxisOptions;
+};
+
+export type SimpleBarVirtualOptions = {
+  itemCount: number;
+  // size in px of an item not rendered yet, replaced once it is measured
+  estimateSize: (index: number) => number;
+  renderItem: (index: number) => HTMLElement;
+  // number of items rendered before and after the visible ones
+  overscan?: number;
+};
+
+export type SimpleBarAxisGeometry = {
+  trackSize: number;
+  thumbSize: number;
+  // thumb position from the left or top of the track
+  thumbOffset: number;
+  // scroll progress between 0 and 1
+  percentage: number;
+  isOverflowing: boolean;
+  isVisible: boolean;
+  isDragging: boolean;
+  isHovered: boolean;
+};
+
+export type SimpleBarRenderer = {
+  // called at most once per frame when the geometry of an axis changes
+  render: (
+    geometry: Record<Axis, SimpleBarAxisGeometry>,
+    instance: SimpleBarCore,
+  ) => void;
+  // called once, when the instance is destroyed or the renderer replaced
+  destroy?: () => void;
+};
+
+export type SimpleBarMarker = {
+  // offset in px from the start of the content, or an element of the content
+  target: number | Element;
+  axis?: Axis;
+  className?: string;
+};
+
+export type SimpleBarSnapOptions = {
+  axis?: Axis;
+  // offsets in px or elements of the content, read from the
+  // scroll-snap-align of the content children if not set
+  points?: (number | Element)[];
+  // duration in ms of the animation to the snap point
+  duration?: number;
+};
+
 type RtlHelpers = {
   // determines if the scrolling is responding with negative values
   isScrollOriginAtZero: boolean;
@@ -68,13 +265,44 @@ type RtlHelpers = {
 } | null;
 type DefaultOptions = Options & typeof SimpleBarCore.defaultOptions;
 
+let contentWrapperId = 0;
+
+// Attributes set on the scrollbar handles by the ariaScrollbars option
+const ariaScrollbarAttributes = [
+  'tabindex',
+  'role',
+  'aria-controls',
+  'aria-orientation',
+  'aria-valuemin',
+  'aria-valuemax',
+  'aria-valuenow',
+];
+
+// Numeric options, read as strings from the HTML attributes
+const numericOptions: (keyof Options)[] = [
+  'scrollbarMinSize',
+  'scrollbarMaxSize',
+  'tabIndex',
+  'showDelay',
+  'hideDelay',
+  'fadeInDuration',
+  'fadeOutDuration',
+  'keyboardStep',
+  'keyboardPageStep',
+  'coarsePointerHitArea',
+  'hoverProximity',
+  'smoothWheelFriction',
+];
+
 const {
   getElementWindow,
   getElementDocument,
+  getElementRoot,
   getOptions,
   addClasses,
   removeClasses,
   classNamesToQuery,
+  isInteractiveElement,
 } = helpers;
 
 export default class SimpleBarCore {
@@ -86,14 +314,22 @@ export default class SimpleBarCore {
     y: AxisProps;
   };
   draggedAxis?: Axis;
+  dragPointerId: number | null = null;
   removePreventClickId: null | number = null;
+  trackClickTimeoutId: null | number = null;
   minScrollbarWidth = 20;
   stopScrollDelay = 1300;
+  trackClickRepeatDelay = 100;
+  wheelLineHeight = 40;
   isScrolling = false;
-  isMouseEntering = false;
+  isPointerInside = false;
   isDragging = false;
+  isTrackClicking = false;
+  trackClickAxis: Axis | null = null;
   scrollXTicking = false;
   scrollYTicking = false;
+  renderTicking = false;
+  renderFrameId: number | null = null;
   wrapperEl: HTMLElement | null = null;
   contentWrapperEl: HTMLElement | null = null;
   contentEl: HTMLElement | null = null;
@@ -102,6 +338,34 @@ export default class SimpleBarCore {
   placeholderEl: HTMLElement | null = null;
   heightAutoObserverWrapperEl: HTMLElement | null = null;
   heightAutoObserverEl: HTMLElement | null = null;
+  isDOMGenerated = false;
+  isDestroyed = false;
+  isLoadingMore = false;
+  // axes whose last load failed, only retried on a scroll toward the edge
+  hasLoadMoreFailed: Record<Axis, boolean> = { x: false, y: false };
+  pendingScrollRestore: ScrollPosition | null = null;
+  virtualRange: { start: number; end: number } | null = null;
+  virtualItemSizes: { [index: number]: number } = {};
+  // offsets of the first virtual items, extended on demand
+  virtualOffsets: number[] = [0];
+  virtualTotalSize: number | null = null;
+  // rendered virtual items, null until the content element is taken over
+  virtualItemEls: { [index: number]: HTMLElement } | null = null;
+  // children of the content element before it was taken over
+  virtualInitialChildren: Node[] | null = null;
+  shadowEls: HTMLElement[] = [];
+  snapPoints: number[] = [];
+  snapIndex = -1;
+  // inline scroll-snap-type of the content wrapper while it is suspended
+  suspendedSnapType: string | null = null;
+  markers: {
+    [id: string]: { marker: SimpleBarMarker; el: HTMLElement };
+  } = {};
+  initialAttributes: {
+    el: HTMLElement;
+    name: string;
+    value: string | null;
+  }[] = [];
   rtlHelpers: RtlHelpers = null;
   scrollbarWidth: number = 0;
   resizeObserver: ResizeObserver | null = null;
@@ -113,9 +377,22 @@ export default class SimpleBarCore {
   onMouseMove: DebouncedFunc<any> | (() => void) = () => {};
   onWindowResize: DebouncedFunc<any> | (() => void) = () => {};
   onStopScrolling: DebouncedFunc<any> | (() => void) = () => {};
-  onMouseEntered: DebouncedFunc<any> | (() => void) = () => {};
+  showTimeoutId: number | null = null;
+  hideTimeoutId: number | null = null;
+  scrollAnimation: {
+    id: number;
+    resolve: (isCompleted: boolean) => void;
+  } | null = null;
+  wheelAnimationId: number | null = null;
+  wheelDelta = { x: 0, y: 0 };
+  eventListeners: SimpleBarEventListeners = createEventListeners();
+
+  // RTL behaviour is measured once per document or shadow root
+  static rtlHelpers = new WeakMap<helpers.ElementRoot, RtlHelpers>();
 
-  static rtlHelpers: RtlHelpers = null;
+  static instances = new WeakMap<HTMLElement, SimpleBarCore>();
+
+  static globalObserver: MutationObserver | null = null;
 
   static defaultOptions: Options = {
     forceVisible: false,
@@ -127,6 +404,8 @@ export default class SimpleBarCore {
     classNames: {
       contentEl: 'simplebar-content',
       contentWrapper: 'simplebar-content-wrapper',
+      offset: 'simplebar-offset',
+      mask: 'simplebar-mask',
       wrapper: 'simplebar-scroll-content',
       placeholder: 'simplebar-placeholder',
       scrollbar: 'simplebar-scrollbar',
@@ -137,14 +416,47 @@ export default class SimpleBarCore {
       horizontal: 'horizontal',
       vertical: 'vertical',
       dragging: 'dragging',
+      hover: 'hover',
       scrollable: 'scrollable-area--suppress-scroll',
+      canScrollUp: 'can-scroll-up',
+      canScrollDown: 'can-scroll-down',
+      canScrollLeft: 'can-scroll-left',
+      canScrollRight: 'can-scroll-right',
+      shadow: 'simplebar-shadow',
+      marker: 'simplebar-marker',
     },
     scrollableNode: null,
     contentNode: null,
     autoHide: true,
+    visibility: null,
+    showDelay: 0,
+    hideDelay: 1300,
+    fadeInDuration: null,
+    fadeOutDuration: null,
+    generateDOM: false,
+    keyboardNavigation: true,
+    keyboardStep: 40,
+    keyboardPageStep: 0.9,
+    ariaScrollbars: false,
+    coarsePointerHitArea: 0,
+    hoverProximity: 0,
+    loadMore: null,
+    persistKey: null,
+    persistStorage: 'memory',
+    virtual: null,
+    stickToEnd: false,
+    scrollShadows: false,
+    smoothWheel: false,
+    smoothWheelFriction: 0.85,
+    horizontalWheel: false,
+    overscrollBehavior: 'auto',
+    renderer: null,
+    snap: false,
   };
 
   constructor(element: HTMLElement, options: Partial<Options> = {}) {
+    options = SimpleBarCore.normalizeOptions(options);
+
     this.el = element;
     this.options = { ...SimpleBarCore.defaultOptions, ...options };
     this.classNames = {
@@ -162,8 +474,23 @@ export default class SimpleBarCore {
         dragOffset: 0,
         isOverflowing: true,
         forceVisible: false,
-        track: { size: null, el: null, rect: null, isVisible: false },
-        scrollbar: { size: null, el: null, rect: null, isVisible: false },
+        isScrolling: false,
+        scrollOffset: 0,
+        isStickingToEnd: false,
+        track: {
+          size: null,
+          el: null,
+          rect: null,
+          isVisible: false,
+          isHovered: false,
+        },
+        scrollbar: {
+          size: null,
+          offset: 0,
+          el: null,
+          rect: null,
+          isVisible: false,
+        },
       },
       y: {
         scrollOffsetAttr: 'scrollTop',
@@ -175,11 +502,29 @@ export default class SimpleBarCore {
         dragOffset: 0,
         isOverflowing: true,
         forceVisible: false,
-        track: { size: null, el: null, rect: null, isVisible: false },
-        scrollbar: { size: null, el: null, rect: null, isVisible: false },
+        isScrolling: false,
+        scrollOffset: 0,
+        isStickingToEnd: false,
+        track: {
+          size: null,
+          el: null,
+          rect: null,
+          isVisible: false,
+          isHovered: false,
+        },
+        scrollbar: {
+          size: null,
+          offset: 0,
+          el: null,
+          rect: null,
+          isVisible: false,
+        },
       },
     };
 
+    this.axis.x.isStickingToEnd = this.isStickToEndEnabled('x');
+    this.axis.y.isStickingToEnd = this.isStickToEndEnabled('y');
+
     if (typeof this.el !== 'object' || !this.el.nodeName) {
       throw new Error(
         `Argument passed to SimpleBar must be an HTML element instead of ${this.el}`,
@@ -192,7 +537,8 @@ export default class SimpleBarCore {
       this._onStopScrolling,
       this.stopScrollDelay,
     );
-    this.onMouseEntered = debounce(this._onMouseEntered, this.stopScrollDelay);
+
+    SimpleBarCore.instances.set(this.el, this);
 
     this.init();
   }
@@ -203,6 +549,142 @@ export default class SimpleBarCore {
 
   static getOptions = getOptions;
   static helpers = helpers;
+  static easings = easings;
+
+  /**
+   * Init every [data-simplebar] element once the DOM is ready and watch for
+   * the ones added or removed later on
+   */
+  static initHtmlApi() {
+    if (!helpers.canUseDOM) return;
+
+    // MutationObserver is IE11+
+    if (
+      typeof MutationObserver !== 'undefined' &&
+      !SimpleBarCore.globalObserver
+    ) {
+      // Mutation observer to observe dynamically added elements
+      SimpleBarCore.globalObserver = new MutationObserver(
+        SimpleBarCore.handleMutations,
+      );
+      SimpleBarCore.globalObserver.observe(document, {
+        childList: true,
+        subtree: true,
+      });
+    }
+
+    // Taken from jQuery `ready` function
+    // Instantiate elements already present on the page
+    if (document.readyState !== 'loading') {
+      // Handle it asynchronously to allow scripts the opportunity to delay init
+      window.setTimeout(SimpleBarCore.initDOMLoadedElements);
+    } else {
+      document.addEventListener(
+        'DOMContentLoaded',
+        SimpleBarCore.initDOMLoadedElements,
+      );
+      window.addEventListener('load', SimpleBarCore.initDOMLoadedElements);
+    }
+  }
+
+  static initDOMLoadedElements() {
+    document.removeEventListener(
+      'DOMContentLoaded',
+      SimpleBarCore.initDOMLoadedElements,
+    );
+    window.removeEventListener('load', SimpleBarCore.initDOMLoadedElements);
+
+    Array.prototype.forEach.call(
+      document.querySelectorAll('[data-simplebar]'),
+      SimpleBarCore.initHtmlElement,
+    );
+  }
+
+  /**
+   * Stop watching the document for [data-simplebar] elements
+   */
+  static removeObserver() {
+    SimpleBarCore.globalObserver?.disconnect();
+    SimpleBarCore.globalObserver = null;
+  }
+
+  static handleMutations(mutations: MutationRecord[]) {
+    mutations.forEach((mutation) => {
+      Array.prototype.forEach.call(mutation.addedNodes, (addedNode: Node) => {
+        if (addedNode.nodeType !== 1) return;
+
+        const el = addedNode as HTMLElement;
+
+        if (el.hasAttribute('data-simplebar')) {
+          SimpleBarCore.initHtmlElement(el);
+        }
+
+        Array.prototype.forEach.call(
+          el.querySelectorAll('[data-simplebar]'),
+          SimpleBarCore.initHtmlElement,
+        );
+      });
+
+      Array.prototype.forEach.call(
+        mutation.removedNodes,
+        (removedNode: Node) => {
+          if (removedNode.nodeType !== 1) return;
+
+          const el = removedNode as HTMLElement;
+
+          if (el.hasAttribute('data-simplebar')) {
+            SimpleBarCore.unMountHtmlElement(el);
+          }
+
+          Array.prototype.forEach.call(
+            el.querySelectorAll('[data-simplebar]'),
+            SimpleBarCore.unMountHtmlElement,
+          );
+        },
+      );
+    });
+  }
+
+  /**
+   * Convert the numeric options given as strings, like the ones read from
+   * the HTML attributes
+   */
+  static normalizeOptions(options: Partial<Options>) {
+    const normalizedOptions: { [key: string]: any } = { ...options };
+
+    numericOptions.forEach((key) => {
+      if (typeof normalizedOptions[key] === 'string') {
+        normalizedOptions[key] = Number(normalizedOptions[key]);
+      }
+    });
+
+    return normalizedOptions as Partial<Options>;
+  }
+
+  static initHtmlElement(el: HTMLElement) {
+    // Elements marked as "init" are already handled by a framework plugin
+    if (
+      el.getAttribute('data-simplebar') === 'init' ||
+      SimpleBarCore.instances.has(el) ||
+      !getElementDocument(el).documentElement.contains(el)
+    )
+      return;
+
+    new SimpleBarCore(el, { generateDOM: true, ...getOptions(el.attributes) });
+  }
+
+  static unMountHtmlElement(el: HTMLElement) {
+    const instance = SimpleBarCore.instances.get(el);
+
+    // Framework plugins unmount the "init" elements they created
+    if (
+      instance &&
+      el.getAttribute('data-simplebar') !== 'init' &&
+      !getElementDocument(el).documentElement.contains(el)
+    ) {
+      instance.unMount();
+    }
+  }
 
   /**
    * Helper to fix browsers inconsistency on RTL:
@@ -210,21 +692,32 @@ export default class SimpleBarCore {
    *  - IE11 inverts both scrollbar position and scrolling offset
    * Directly inspired by @KingSora's OverlayScrollbars https://github.com/KingSora/OverlayScrollbars/blob/master/js/OverlayScrollbars.js#L1634
    */
-  static getRtlHelpers() {
-    if (SimpleBarCore.rtlHelpers) {
-      return SimpleBarCore.rtlHelpers;
-    }
+  static getRtlHelpers(element?: Element) {
+    if (!element && !helpers.canUseDOM) return null;
+
+    const root = element ? getElementRoot(element) : document;
+    const cachedRtlHelpers = SimpleBarCore.rtlHelpers.get(root);
+
+    if (cachedRtlHelpers) return cachedRtlHelpers;
+
+    const elDocument =
+      root.nodeType === 9 ? (root as Document) : root.ownerDocument;
+
+    if (!elDocument || !elDocument.body) return null;
 
-    const dummyDiv = document.createElement('div');
+    const container = root === elDocument ? elDocument.body : root;
+    const dummyDiv = elDocument.createElement('div');
+    // Styled inline as the document styles don't reach a shadow root
     dummyDiv.innerHTML =
-      '<div class="simplebar-dummy-scrollbar-size"><div></div></div>';
+      '<div class="simplebar-dummy-scrollbar-size" style="direction:rtl;position:fixed;opacity:0;visibility:hidden;height:500px;width:500px;overflow-y:hidden;overflow-x:scroll">' +
+      '<div style="width:200%;height:200%;margin:10px 0"></div></div>';
 
     const scrollbarDummyEl = dummyDiv.firstElementChild;
     const dummyChild = scrollbarDummyEl?.firstElementChild;
 
     if (!dummyChild) return null;
 
-    document.body.appendChild(scrollbarDummyEl);
+    container.appendChild(scrollbarDummyEl);
 
     scrollbarDummyEl.scrollLeft = 0;
 
@@ -234,9 +727,9 @@ export default class SimpleBarCore {
     scrollbarDummyEl.scrollLeft = -999;
     const dummyChildOffsetAfterScroll = SimpleBarCore.getOffset(dummyChild);
 
-    document.body.removeChild(scrollbarDummyEl);
+    container.removeChild(scrollbarDummyEl);
 
-    SimpleBarCore.rtlHelpers = {
+    const rtlHelpers = {
       // determines if the scrolling is responding with negative values
       isScrollOriginAtZero: dummyContainerOffset.left !== dummyChildOffset.left,
       // determines if the origin scrollbar position is inverted or not (positioned on left or right)
@@ -244,26 +737,33 @@ export default class SimpleBarCore {
         dummyChildOffset.left !== dummyChildOffsetAfterScroll.left,
     };
 
-    return SimpleBarCore.rtlHelpers;
+    SimpleBarCore.rtlHelpers.set(root, rtlHelpers);
+
+    return rtlHelpers;
   }
 
   getScrollbarWidth() {
+    const elWindow = getElementWindow(this.el);
+    const elDocument = getElementDocument(this.el);
+
     // Try/catch for FF 56 throwing on undefined computedStyles
     try {
       // Detect browsers supporting CSS scrollbar styling and do not calculate
       if (
         (this.contentWrapperEl &&
-          getComputedStyle(this.contentWrapperEl, '::-webkit-scrollbar')
-            .display === 'none') ||
-        'scrollbarWidth' in document.documentElement.style ||
-        '-ms-overflow-style' in document.documentElement.style
+          elWindow.getComputedStyle(
+            this.contentWrapperEl,
+            '::-webkit-scrollbar',
+          ).display === 'none') ||
+        'scrollbarWidth' in elDocument.documentElement.style ||
+        '-ms-overflow-style' in elDocument.documentElement.style
       ) {
         return 0;
       } else {
-        return scrollbarWidth();
+        return scrollbarWidth(this.el);
       }
     } catch (e) {
-      return scrollbarWidth();
+      return scrollbarWidth(this.el);
     }
   }
 
@@ -284,11 +784,12 @@ export default class SimpleBarCore {
 
   init() {
     // We stop here on server-side
-    if (helpers.canUseDOM) {
+    if (helpers.canUseDOM && !this.isDestroyed) {
       this.initDOM();
 
-      this.rtlHelpers = SimpleBarCore.getRtlHelpers();
+      this.rtlHelpers = SimpleBarCore.getRtlHelpers(this.el);
       this.scrollbarWidth = this.getScrollbarWidth();
+      this.pendingScrollRestore = this.getPersistedScroll();
 
       this.recalculate();
 
@@ -296,7 +797,185 @@ export default class SimpleBarCore {
     }
   }
 
+  /**
+   * Update options without remounting, scrollableNode, contentNode and
+   * generateDOM only apply on mount
+   */
+  setOptions(options: Partial<Options>) {
+    options = SimpleBarCore.normalizeOptions(options);
+
+    const previousOptions = this.options;
+    const previousClassNames = this.classNames;
+    const hasChanged = (key: keyof Options) =>
+      key in options && options[key] !== previousOptions[key];
+
+    this.options = {
+      ...this.options,
+      ...options,
+      classNames: { ...previousOptions.classNames, ...options.classNames },
+    };
+    this.classNames = {
+      ...this.classNames,
+      ...options.classNames,
+    } as ClassNames;
+
+    if (!this.contentWrapperEl) return;
+
+    this.updateClassNames(previousClassNames);
+
+    if (hasChanged('fadeInDuration') || hasChanged('fadeOutDuration')) {
+      // Back to the duration of the stylesheet
+      (['x', 'y'] as Axis[]).forEach((axis) => {
+        this.axis[axis].scrollbar.el?.style.removeProperty(
+          'transition-duration',
+        );
+      });
+    }
+
+    if (hasChanged('autoHide') || hasChanged('visibility')) {
+      this.clearVisibilityTimeouts();
+
+      (['x', 'y'] as Axis[]).forEach((axis) => {
+        const scrollbar = this.axis[axis].scrollbar;
+
+        if (this.getVisibility() !== 'always') {
+          removeClasses(scrollbar.el, this.classNames.visible);
+          scrollbar.isVisible = false;
+        } else {
+          addClasses(scrollbar.el, this.classNames.visible);
+          scrollbar.isVisible = true;
+        }
+      });
+    }
+
+    if (hasChanged('ariaLabel')) {
+      this.contentWrapperEl.setAttribute('aria-label', this.options.ariaLabel);
+    }
+
+    if (hasChanged('tabIndex')) {
+      this.contentWrapperEl.setAttribute(
+        'tabindex',
+        `${this.options.tabIndex}`,
+      );
+    }
+
+    if (hasChanged('overscrollBehavior')) {
+      this.contentWrapperEl.style.overscrollBehavior =
+        this.options.overscrollBehavior === 'auto'
+          ? ''
+          : this.options.overscrollBehavior;
+    }
+
+    if (hasChanged('scrollShadows')) {
+      this.removeShadows();
+
+      if (this.options.scrollShadows) {
+        this.generateShadows();
+      }
+    }
+
+    if (hasChanged('stickToEnd')) {
+      this.axis.x.isStickingToEnd = this.isStickToEndEnabled('x');
+      this.axis.y.isStickingToEnd = this.isStickToEndEnabled('y');
+    }
+
+    if (hasChanged('smoothWheel')) {
+      this.stopSmoothWheel();
+    }
+
+    if (hasChanged('virtual')) {
+      this.virtualRange = null;
+      this.virtualItemSizes = {};
+      this.virtualOffsets = [0];
+      this.virtualTotalSize = null;
+      this.restoreVirtualContent();
+    }
+
+    if (hasChanged('renderer')) {
+      previousOptions.renderer?.destroy?.();
+    }
+
+    if (hasChanged('snap')) {
+      this.resumeNativeSnap();
+      this.snapIndex = -1;
+    }
+
+    // The scrollbar keyboard listeners are only bound with ariaScrollbars
+    if (hasChanged('ariaScrollbars')) {
+      (['x', 'y'] as Axis[]).forEach((axis) => {
+        if (this.options.ariaScrollbars) {
+          this.initAriaScrollbar(axis);
+        } else {
+          this.removeAriaScrollbar(axis);
+        }
+      });
+
+      this.removeListeners();
+      this.initListeners();
+    }
+
+    this.recalculate();
+    this.requestRender();
+  }
+
+  /**
+   * Swap the class names changed by setOptions on the elements using them
+   */
+  updateClassNames(previousClassNames: ClassNames) {
+    const elements = [
+      this.el,
+      this.wrapperEl,
+      this.contentWrapperEl,
+      this.contentEl,
+      this.offsetEl,
+      this.maskEl,
+      this.placeholderEl,
+      this.heightAutoObserverWrapperEl,
+      this.heightAutoObserverEl,
+      this.axis.x.track.el,
+      this.axis.y.track.el,
+      this.axis.x.scrollbar.el,
+      this.axis.y.scrollbar.el,
+      ...this.shadowEls,
+      ...Object.keys(this.markers).map((id) => this.markers[id].el),
+    ];
+    const replaceClasses = (from: string, to: string) => {
+      elements.forEach((el) => {
+        if (el && el.classList.contains(from.split(' ')[0])) {
+          removeClasses(el, from);
+          addClasses(el, to);
+        }
+      });
+    };
+
+    (Object.keys(this.classNames) as (keyof ClassNames)[]).forEach((key) => {
+      const from = previousClassNames[key];
+      const to = this.classNames[key];
+
+      if (from === to) return;
+
+      replaceClasses(from, to);
+
+      // Class names derived from the configured ones
+      if (key === 'scrollable') {
+        replaceClasses(`${from}-x`, `${to}-x`);
+        replaceClasses(`${from}-y`, `${to}-y`);
+      } else if (key === 'shadow') {
+        ['top', 'bottom', 'left', 'right'].forEach((edge) => {
+          replaceClasses(`${from}-${edge}`, `${to}-${edge}`);
+        });
+      }
+    });
+  }
+
   initDOM() {
+    if (
+      this.options.generateDOM &&
+      !this.findChild(this.el, classNamesToQuery(this.classNames.wrapper))
+    ) {
+      this.generateDOM();
+    }
+
     // assume that element has his DOM already initiated
     this.wrapperEl = this.el.querySelector(
       classNamesToQuery(this.classNames.wrapper),
@@ -307,6 +986,12 @@ export default class SimpleBarCore {
     this.contentEl =
       this.options.contentNode ||
       this.el.querySelector(classNamesToQuery(this.classNames.contentEl));
+    this.offsetEl = this.el.querySelector(
+      classNamesToQuery(this.classNames.offset),
+    );
+    this.maskEl = this.el.querySelector(
+      classNamesToQuery(this.classNames.mask),
+    );
 
     this.placeholderEl = this.findChild(
       this.wrapperEl,
@@ -341,61 +1026,289 @@ export default class SimpleBarCore {
         classNamesToQuery(this.classNames.scrollbar),
       ) || null;
 
-    if (!this.options.autoHide) {
+    if (!this.initialAttributes.length) {
+      this.saveInitialAttributes();
+    }
+
+    if (this.contentWrapperEl) {
+      this.contentWrapperEl.setAttribute('role', 'region');
+      this.contentWrapperEl.setAttribute('aria-label', this.options.ariaLabel);
+      this.contentWrapperEl.setAttribute(
+        'tabindex',
+        `${this.options.tabIndex}`,
+      );
+    }
+
+    // Let the tracks handle touches instead of panning the page
+    if (this.axis.x.track.el) this.axis.x.track.el.style.touchAction = 'none';
+    if (this.axis.y.track.el) this.axis.y.track.el.style.touchAction = 'none';
+
+    if (this.contentWrapperEl && this.options.overscrollBehavior !== 'auto') {
+      this.contentWrapperEl.style.overscrollBehavior =
+        this.options.overscrollBehavior;
+    }
+
+    if (this.getVisibility() === 'always') {
       addClasses(this.axis.x.scrollbar.el, this.classNames.visible);
       addClasses(this.axis.y.scrollbar.el, this.classNames.visible);
+      this.axis.x.scrollbar.isVisible = true;
+      this.axis.y.scrollbar.isVisible = true;
+    }
+
+    if (this.options.ariaScrollbars) {
+      this.initAriaScrollbar('x');
+      this.initAriaScrollbar('y');
+    }
+
+    if (this.options.scrollShadows) {
+      this.generateShadows();
     }
   }
 
-  initListeners() {
-    const elWindow = getElementWindow(this.el);
-    // Event listeners
+  /**
+   * Add one shadow element per edge, shown through the can-scroll classes
+   */
+  generateShadows() {
+    const elDocument = getElementDocument(this.el);
 
-    this.el.addEventListener('mouseenter', this.onMouseEnter);
+    this.shadowEls = ['top', 'bottom', 'left', 'right'].map((edge) => {
+      const shadowEl = elDocument.createElement('div');
+      addClasses(shadowEl, this.classNames.shadow);
+      addClasses(shadowEl, `${this.classNames.shadow}-${edge}`);
+      this.el.appendChild(shadowEl);
+      return shadowEl;
+    });
+  }
 
-    this.el.addEventListener('pointerdown', this.onPointerEvent, true);
+  removeShadows() {
+    this.shadowEls.forEach((shadowEl) => {
+      if (shadowEl.parentNode === this.el) {
+        this.el.removeChild(shadowEl);
+      }
+    });
+    this.shadowEls = [];
+  }
 
-    this.el.addEventListener('mousemove', this.onMouseMove);
-    this.el.addEventListener('mouseleave', this.onMouseLeave);
+  /**
+   * Expose a track as a scrollbar to assistive technologies
+   */
+  initAriaScrollbar(axis: Axis = 'y') {
+    const scrollbar = this.axis[axis].scrollbar.el;
 
-    this.contentWrapperEl?.addEventListener('scroll', this.onScroll);
+    if (!scrollbar || !this.contentWrapperEl) return;
 
-    // Browser zoom triggers a window resize
-    elWindow.addEventListener('resize', this.onWindowResize);
+    if (!this.contentWrapperEl.id) {
+      this.contentWrapperEl.id = `simplebar-content-wrapper-${++contentWrapperId}`;
+    }
 
-    if (!this.contentEl) return;
+    // The focusable handle carries the role, so it is announced with its value
+    scrollbar.setAttribute('role', 'scrollbar');
+    scrollbar.setAttribute('aria-controls', this.contentWrapperEl.id);
+    scrollbar.setAttribute(
+      'aria-orientation',
+      axis === 'x' ? 'horizontal' : 'vertical',
+    );
+    scrollbar.setAttribute('aria-valuemin', '0');
+    scrollbar.setAttribute('aria-valuemax', '100');
+    scrollbar.setAttribute('aria-valuenow', '0');
+    scrollbar.setAttribute('tabindex', '0');
+  }
 
-    if (window.ResizeObserver) {
-      // Hack for https://github.com/WICG/ResizeObserver/issues/38
-      let resizeObserverStarted = false;
-      const resizeObserver = elWindow.ResizeObserver || ResizeObserver;
-      this.resizeObserver = new resizeObserver(() => {
-        if (!resizeObserverStarted) return;
+  removeAriaScrollbar(axis: Axis = 'y') {
+    const scrollbar = this.axis[axis].scrollbar.el;
 
-        elWindow.requestAnimationFrame(() => {
-          this.recalculate();
+    ariaScrollbarAttributes.forEach((name) => {
+      scrollbar?.removeAttribute(name);
+    });
+
+    // Drop the id given to the content wrapper for aria-controls
+    if (
+      this.contentWrapperEl &&
+      this.contentWrapperEl.id.indexOf('simplebar-content-wrapper-') === 0
+    ) {
+      this.contentWrapperEl.removeAttribute('id');
+    }
+  }
+
+  /**
+   * Keep a copy of the attributes SimpleBar writes to, so destroy() can
+   * put them back
+   */
+  saveInitialAttributes() {
+    const elements: [HTMLElement | null, string[]][] = [
+      [
+        this.contentWrapperEl,
+        ['style', 'role', 'aria-label', 'tabindex', 'id'],
+      ],
+      [this.placeholderEl, ['style']],
+      [this.contentEl, ['style']],
+      [this.axis.x.track.el, ['style']],
+      [this.axis.y.track.el, ['style']],
+    ];
+
+    [this.axis.x.scrollbar.el, this.axis.y.scrollbar.el].forEach(
+      (scrollbar) => {
+        elements.push([scrollbar, ['style', ...ariaScrollbarAttributes]]);
+      },
+    );
+
+    elements.forEach(([el, names]) => {
+      if (!el) return;
+
+      names.forEach((name) => {
+        this.initialAttributes.push({
+          el,
+          name,
+          value: el.getAttribute(name),
         });
       });
+    });
+  }
 
-      this.resizeObserver.observe(this.el);
-      this.resizeObserver.observe(this.contentEl);
+  /**
+   * Wrap the element children into the SimpleBar markup
+   */
+  generateDOM() {
+    const elDocument = getElementDocument(this.el);
+    const createEl = (classNames: string) => {
+      const el = elDocument.createElement('div');
+      addClasses(el, classNames);
+      return el;
+    };
 
-      elWindow.requestAnimationFrame(() => {
-        resizeObserverStarted = true;
-      });
+    const wrapperEl = createEl(this.classNames.wrapper);
+    const heightAutoObserverWrapperEl = createEl(
+      this.classNames.heightAutoObserverWrapperEl,
+    );
+    const heightAutoObserverEl = createEl(this.classNames.heightAutoObserverEl);
+    const maskEl = createEl(this.classNames.mask);
+    const offsetEl = createEl(this.classNames.offset);
+    const contentWrapperEl = createEl(this.classNames.contentWrapper);
+    const contentEl = createEl(this.classNames.contentEl);
+    const placeholderEl = createEl(this.classNames.placeholder);
+
+    while (this.el.firstChild) {
+      contentEl.appendChild(this.el.firstChild);
     }
 
-    // This is required to detect horizontal scroll. Vertical scroll only needs the resizeObserver.
-    this.mutationObserver = new elWindow.MutationObserver(() => {
-      elWindow.requestAnimationFrame(() => {
-        this.recalculate();
-      });
+    contentWrapperEl.appendChild(contentEl);
+    offsetEl.appendChild(contentWrapperEl);
+    maskEl.appendChild(offsetEl);
+    heightAutoObserverWrapperEl.appendChild(heightAutoObserverEl);
+    wrapperEl.appendChild(heightAutoObserverWrapperEl);
+    wrapperEl.appendChild(maskEl);
+    wrapperEl.appendChild(placeholderEl);
+    this.el.appendChild(wrapperEl);
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      const track = createEl(this.classNames.track);
+      addClasses(
+        track,
+        axis === 'x' ? this.classNames.horizontal : this.classNames.vertical,
+      );
+      track.appendChild(createEl(this.classNames.scrollbar));
+      this.el.appendChild(track);
     });
 
-    this.mutationObserver.observe(this.contentEl, {
-      childList: true,
-      subtree: true,
-      characterData: true,
+    this.isDOMGenerated = true;
+  }
+
+  /**
+   * Remove the generated markup and put the content back into the element
+   */
+  unMountDOM() {
+    if (!this.isDOMGenerated) return;
+
+    const contentEl = this.contentEl;
+    const generatedEls = [
+      this.wrapperEl,
+      this.axis.x.track.el,
+      this.axis.y.track.el,
+    ];
+
+    generatedEls.forEach((el) => {
+      if (el && el.parentNode === this.el) {
+        this.el.removeChild(el);
+      }
+    });
+
+    if (contentEl) {
+      while (contentEl.firstChild) {
+        this.el.appendChild(contentEl.firstChild);
+      }
+    }
+
+    this.isDOMGenerated = false;
+  }
+
+  initListeners() {
+    const elWindow = getElementWindow(this.el);
+    // Event listeners
+
+    this.el.addEventListener('mouseenter', this.onMouseEnter);
+
+    this.el.addEventListener('pointerdown', this.onPointerEvent, true);
+
+    this.el.addEventListener('mousemove', this.onMouseMove);
+    this.el.addEventListener('mouseleave', this.onMouseLeave);
+
+    this.contentWrapperEl?.addEventListener('scroll', this.onScroll);
+    this.contentWrapperEl?.addEventListener('keydown', this.onKeyDown);
+    this.contentWrapperEl?.addEventListener('wheel', this.onWheel, {
+      passive: false,
+    });
+
+    if (this.options.ariaScrollbars) {
+      this.axis.x.scrollbar.el?.addEventListener(
+        'keydown',
+        this.onScrollbarKeyDown,
+      );
+      this.axis.y.scrollbar.el?.addEventListener(
+        'keydown',
+        this.onScrollbarKeyDown,
+      );
+    }
+
+    // Any user input takes over programmatic scrolling
+    ['wheel', 'touchstart', 'pointerdown', 'keydown'].forEach((type) => {
+      this.el.addEventListener(type, this.onUserScrollInput, true);
+    });
+
+    // Browser zoom triggers a window resize
+    elWindow.addEventListener('resize', this.onWindowResize);
+
+    if (!this.contentEl) return;
+
+    if (elWindow.ResizeObserver) {
+      // Hack for https://github.com/WICG/ResizeObserver/issues/38
+      let resizeObserverStarted = false;
+      this.resizeObserver = new elWindow.ResizeObserver(() => {
+        if (!resizeObserverStarted) return;
+
+        elWindow.requestAnimationFrame(() => {
+          this.recalculate();
+        });
+      });
+
+      this.resizeObserver.observe(this.el);
+      this.resizeObserver.observe(this.contentEl);
+
+      elWindow.requestAnimationFrame(() => {
+        resizeObserverStarted = true;
+      });
+    }
+
+    // This is required to detect horizontal scroll. Vertical scroll only needs the resizeObserver.
+    this.mutationObserver = new elWindow.MutationObserver(() => {
+      elWindow.requestAnimationFrame(() => {
+        this.recalculate();
+      });
+    });
+
+    this.mutationObserver.observe(this.contentEl, {
+      childList: true,
+      subtree: true,
+      characterData: true,
     });
   }
 
@@ -412,6 +1325,8 @@ export default class SimpleBarCore {
     this.elStyles = elWindow.getComputedStyle(this.el);
     this.isRtl = this.elStyles.direction === 'rtl';
 
+    this.renderVirtualItems();
+
     const contentElOffsetWidth = this.contentEl.offsetWidth;
 
     const isHeightAuto = this.heightAutoObserverEl.offsetHeight <= 1;
@@ -426,7 +1341,9 @@ export default class SimpleBarCore {
     // this.contentEl.style.padding = `${this.elStyles.paddingTop} ${this.elStyles.paddingRight} ${this.elStyles.paddingBottom} ${this.elStyles.paddingLeft}`;
     // this.wrapperEl.style.margin = `-${this.elStyles.paddingTop} -${this.elStyles.paddingRight} -${this.elStyles.paddingBottom} -${this.elStyles.paddingLeft}`;
 
-    const contentElScrollHeight = this.contentEl.scrollHeight;
+    const contentElScrollHeight = this.options.virtual
+      ? this.getVirtualTotalSize()
+      : this.contentEl.scrollHeight;
     const contentElScrollWidth = this.contentEl.scrollWidth;
 
     this.contentWrapperEl.style.height = isHeightAuto ? 'auto' : '100%';
@@ -440,6 +1357,10 @@ export default class SimpleBarCore {
     }
 
     const contentWrapperElOffsetHeight = this.contentWrapperEl.offsetHeight;
+    const wasOverflowing = {
+      x: this.axis.x.isOverflowing,
+      y: this.axis.y.isOverflowing,
+    };
 
     this.axis.x.isOverflowing =
       contentElOffsetWidth !== 0 && contentElScrollWidth > contentElOffsetWidth;
@@ -481,11 +1402,330 @@ export default class SimpleBarCore {
     if (this.axis.y.scrollbar.el)
       this.axis.y.scrollbar.el.style.height = `${this.axis.y.scrollbar.size}px`;
 
+    // Follow the new content before positioning the scrollbar so it does not
+    // jump back and forth
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (this.axis[axis].isStickingToEnd) {
+        this.setScrollOffset(axis, this.getMaxScrollOffset(axis));
+      }
+    });
+
     this.positionScrollbar('x');
     this.positionScrollbar('y');
+    this.updateEdgeClasses('x');
+    this.updateEdgeClasses('y');
 
     this.toggleTrackVisibility('x');
     this.toggleTrackVisibility('y');
+
+    // positionScrollbar skips the axes that stopped overflowing
+    this.requestRender();
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (this.axis[axis].isOverflowing !== wasOverflowing[axis]) {
+        this.emit('overflowchange', {
+          axis,
+          isOverflowing: this.axis[axis].isOverflowing,
+        });
+      }
+    });
+
+    this.restoreScrollPosition();
+    this.positionMarkers();
+    this.updateSnapPoints();
+
+    // Content shorter than the viewport never scrolls to the threshold
+    this.checkLoadMore('x');
+    this.checkLoadMore('y');
+  }
+
+  getVirtualItemSize(index: number) {
+    const size = this.virtualItemSizes[index];
+
+    if (size !== undefined || !this.options.virtual) return size || 0;
+
+    return this.options.virtual.estimateSize(index);
+  }
+
+  /**
+   * Store the measured size of a virtual item, the cached offsets after it
+   * are dropped and the total size is moved by the difference
+   */
+  setVirtualItemSize(index: number, size: number) {
+    const previousSize = this.getVirtualItemSize(index);
+
+    if (size === previousSize) return;
+
+    this.virtualItemSizes[index] = size;
+
+    if (this.virtualTotalSize !== null) {
+      this.virtualTotalSize += size - previousSize;
+    }
+
+    if (this.virtualOffsets.length > index + 1) {
+      this.virtualOffsets.length = index + 1;
+    }
+  }
+
+  /**
+   * Get the offset of a virtual item from the start of the content, using
+   * measured sizes when known and estimated ones otherwise
+   */
+  getVirtualOffset(index: number) {
+    const offsets = this.virtualOffsets;
+
+    for (let i = offsets.length; i <= index; i++) {
+      offsets[i] = offsets[i - 1] + this.getVirtualItemSize(i - 1);
+    }
+
+    return offsets[index];
+  }
+
+  getVirtualTotalSize() {
+    if (!this.options.virtual) return 0;
+
+    if (this.virtualTotalSize === null) {
+      this.virtualTotalSize = this.getVirtualOffset(
+        this.options.virtual.itemCount,
+      );
+    }
+
+    return this.virtualTotalSize;
+  }
+
+  /**
+   * Get the index of the virtual item at an offset of the content
+   */
+  getVirtualIndexAt(offset: number) {
+    if (!this.options.virtual) return 0;
+
+    const { itemCount } = this.options.virtual;
+    const offsets = this.virtualOffsets;
+
+    while (
+      offsets.length <= itemCount &&
+      offsets[offsets.length - 1] <= offset
+    ) {
+      this.getVirtualOffset(offsets.length);
+    }
+
+    let low = 0;
+    let high = offsets.length - 1;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+
+      if (offsets[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return Math.max(Math.min(low, itemCount - 1), 0);
+  }
+
+  /**
+   * Render only the virtual items visible in the viewport, the space of the
+   * other ones is kept with paddings on contentEl
+   */
+  renderVirtualItems() {
+    const virtual = this.options.virtual;
+
+    if (!virtual || !this.contentEl || !this.contentWrapperEl) return;
+
+    const { itemCount, overscan = 3 } = virtual;
+    const viewportStart = this.getScrollOffset('y');
+    const viewportEnd = viewportStart + this.contentWrapperEl.clientHeight;
+
+    let start = this.getVirtualIndexAt(viewportStart);
+    let end = start;
+
+    while (end < itemCount && this.getVirtualOffset(end) < viewportEnd) {
+      end++;
+    }
+
+    start = Math.max(start - overscan, 0);
+    end = Math.min(end + overscan, itemCount);
+
+    if (
+      this.virtualRange &&
+      this.virtualRange.start === start &&
+      this.virtualRange.end === end
+    ) {
+      return;
+    }
+
+    this.virtualRange = { start, end };
+
+    if (!this.virtualItemEls) {
+      this.virtualInitialChildren = [];
+
+      while (this.contentEl.firstChild) {
+        this.virtualInitialChildren.push(
+          this.contentEl.removeChild(this.contentEl.firstChild),
+        );
+      }
+    }
+
+    // Keep the items still in range, only the new ones are rendered
+    const previousItemEls = this.virtualItemEls || {};
+    const itemEls: { [index: number]: HTMLElement } = {};
+    const newItems: number[] = [];
+    let previousItemEl: HTMLElement | null = null;
+
+    Object.keys(previousItemEls).forEach((key) => {
+      const index = Number(key);
+
+      const item = previousItemEls[index];
+
+      if ((index < start || index >= end) && item.parentNode) {
+        item.parentNode.removeChild(item);
+      }
+    });
+
+    for (let i = start; i < end; i++) {
+      const item: HTMLElement = previousItemEls[i] || virtual.renderItem(i);
+      const nextSibling: Node | null = previousItemEl
+        ? previousItemEl.nextSibling
+        : this.contentEl.firstChild;
+
+      if (!previousItemEls[i]) newItems.push(i);
+      if (item !== nextSibling) this.contentEl.insertBefore(item, nextSibling);
+
+      itemEls[i] = item;
+      previousItemEl = item;
+    }
+
+    this.virtualItemEls = itemEls;
+
+    newItems.forEach((index) => {
+      if (itemEls[index].offsetHeight > 0) {
+        this.setVirtualItemSize(index, itemEls[index].offsetHeight);
+      }
+    });
+
+    this.contentEl.style.paddingTop = `${this.getVirtualOffset(start)}px`;
+    this.contentEl.style.paddingBottom = `${
+      this.getVirtualTotalSize() - this.getVirtualOffset(end)
+    }px`;
+  }
+
+  /**
+   * Update the number of virtual items, measured sizes of the existing ones
+   * are kept
+   */
+  setVirtualItemCount(itemCount: number) {
+    if (!this.options.virtual) return;
+
+    // Copied, the virtual options are the object passed by the caller
+    this.options = {
+      ...this.options,
+      virtual: { ...this.options.virtual, itemCount },
+    };
+    this.virtualRange = null;
+    this.virtualTotalSize = null;
+    this.recalculate();
+  }
+
+  /**
+   * Remove the rendered virtual items and put back the children the content
+   * element had before it was taken over
+   */
+  restoreVirtualContent() {
+    const initialChildren = this.virtualInitialChildren;
+
+    this.virtualRange = null;
+    this.virtualItemEls = null;
+    this.virtualInitialChildren = null;
+
+    if (!this.contentEl || !initialChildren) return;
+
+    while (this.contentEl.firstChild) {
+      this.contentEl.removeChild(this.contentEl.firstChild);
+    }
+
+    initialChildren.forEach((child) => this.contentEl?.appendChild(child));
+    this.contentEl.style.removeProperty('padding-top');
+    this.contentEl.style.removeProperty('padding-bottom');
+  }
+
+  getPersistStorage() {
+    const { persistStorage } = this.options;
+
+    if (persistStorage === 'session') {
+      return getSessionStorage(getElementWindow(this.el));
+    }
+    if (persistStorage === 'memory') return memoryStorage;
+
+    return persistStorage;
+  }
+
+  /**
+   * Read the scroll position saved under the persistKey option
+   */
+  getPersistedScroll(): ScrollPosition | null {
+    if (!this.options.persistKey) return null;
+
+    try {
+      const value = this.getPersistStorage().getItem(
+        `simplebar:${this.options.persistKey}`,
+      );
+
+      return value ? JSON.parse(value) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Save the scroll position under the persistKey option
+   */
+  persistScroll() {
+    if (!this.options.persistKey || !this.contentWrapperEl) return;
+
+    // Axes still waiting to be restored keep their saved position
+    const position = {
+      x: this.getScrollOffset('x'),
+      y: this.getScrollOffset('y'),
+      ...this.pendingScrollRestore,
+    };
+
+    try {
+      this.getPersistStorage().setItem(
+        `simplebar:${this.options.persistKey}`,
+        JSON.stringify(position),
+      );
+    } catch (e) {}
+  }
+
+  /**
+   * Restore the persisted position of each axis once its content overflows,
+   * as far as the content allows. Until then, this is retried on every
+   * recalculate
+   */
+  restoreScrollPosition() {
+    const position = this.pendingScrollRestore;
+
+    if (!position) return;
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      const offset = position[axis];
+
+      if (typeof offset !== 'number') return;
+
+      const maxScrollOffset = this.getMaxScrollOffset(axis);
+
+      // The content isn't laid out yet
+      if (offset > maxScrollOffset && maxScrollOffset <= 0) return;
+
+      this.setScrollOffset(axis, Math.min(offset, maxScrollOffset));
+      delete position[axis];
+    });
+
+    if (typeof position.x !== 'number' && typeof position.y !== 'number') {
+      this.pendingScrollRestore = null;
+    }
   }
 
   /**
@@ -496,7 +1736,10 @@ export default class SimpleBarCore {
       return 0;
     }
 
-    const contentSize = this.contentEl[this.axis[axis].scrollSizeAttr];
+    const contentSize =
+      this.options.virtual && axis === 'y'
+        ? this.getVirtualTotalSize()
+        : this.contentEl[this.axis[axis].scrollSizeAttr];
     const trackSize =
       this.axis[axis].track.el?.[this.axis[axis].offsetSizeAttr] ?? 0;
     const scrollbarRatio = trackSize / contentSize;
@@ -528,26 +1771,14 @@ export default class SimpleBarCore {
       return;
     }
 
-    const contentSize = this.contentWrapperEl[this.axis[axis].scrollSizeAttr];
+    const contentSize =
+      this.options.virtual && axis === 'y'
+        ? this.getVirtualTotalSize()
+        : this.contentWrapperEl[this.axis[axis].scrollSizeAttr];
     const trackSize =
       this.axis[axis].track.el?.[this.axis[axis].offsetSizeAttr] || 0;
     const hostSize = parseInt(this.elStyles[this.axis[axis].sizeAttr], 10);
-
-    let scrollOffset = this.contentWrapperEl[this.axis[axis].scrollOffsetAttr];
-
-    scrollOffset =
-      axis === 'x' &&
-      this.isRtl &&
-      SimpleBarCore.getRtlHelpers()?.isScrollOriginAtZero
-        ? -scrollOffset
-        : scrollOffset;
-
-    if (axis === 'x' && this.isRtl) {
-      scrollOffset = SimpleBarCore.getRtlHelpers()?.isScrollingToNegative
-        ? scrollOffset
-        : -scrollOffset;
-    }
-
+    const scrollOffset = this.getScrollOffset(axis);
     const scrollPourcent = scrollOffset / (contentSize - hostSize);
 
     let handleOffset = ~~((trackSize - scrollbar.size) * scrollPourcent);
@@ -556,6 +1787,8 @@ export default class SimpleBarCore {
         ? -handleOffset + (trackSize - scrollbar.size)
         : handleOffset;
 
+    scrollbar.offset = handleOffset;
+
     if (axis === 'x') {
       scrollbar.el.style.left = `${handleOffset}px`;
     } else {
@@ -565,43 +1798,410 @@ export default class SimpleBarCore {
         scrollbar.el.style.top = `${handleOffset}px`;
       }
     }
-  }
-
-  toggleTrackVisibility(axis: Axis = 'y') {
-    const track = this.axis[axis].track.el;
-    const scrollbar = this.axis[axis].scrollbar.el;
 
-    if (!track || !scrollbar || !this.contentWrapperEl) return;
-    if (this.axis[axis].isOverflowing || this.axis[axis].forceVisible) {
-      track.style.visibility = 'visible';
-      this.contentWrapperEl.style[this.axis[axis].overflowAttr] = 'scroll';
-      this.el.classList.add(`${this.classNames.scrollable}-${axis}`);
-    } else {
-      track.style.visibility = 'hidden';
-      this.contentWrapperEl.style[this.axis[axis].overflowAttr] = 'hidden';
-      this.el.classList.remove(`${this.classNames.scrollable}-${axis}`);
+    if (this.options.ariaScrollbars) {
+      scrollbar.el.setAttribute(
+        'aria-valuenow',
+        `${Math.round(this.getScrollEvent(axis).percentage * 100)}`,
+      );
     }
 
-    // Even if forceVisible is enabled, scrollbar itself should be hidden
-    if (this.axis[axis].isOverflowing) {
-      scrollbar.style.display = 'block';
-    } else {
-      scrollbar.style.display = 'none';
-    }
+    this.requestRender();
   }
 
-  showScrollbar(axis: Axis = 'y') {
-    if (this.axis[axis].isOverflowing && !this.axis[axis].scrollbar.isVisible) {
-      addClasses(this.axis[axis].scrollbar.el, this.classNames.visible);
-      this.axis[axis].scrollbar.isVisible = true;
-    }
+  /**
+   * Schedule the renderer option on the next frame
+   */
+  requestRender() {
+    if (!this.options.renderer || this.renderTicking || this.isDestroyed)
+      return;
+
+    this.renderTicking = true;
+    this.renderFrameId = getElementWindow(this.el).requestAnimationFrame(
+      this.renderScrollbars,
+    );
   }
 
-  hideScrollbar(axis: Axis = 'y') {
-    if (this.isDragging) return;
-    if (this.axis[axis].isOverflowing && this.axis[axis].scrollbar.isVisible) {
-      removeClasses(this.axis[axis].scrollbar.el, this.classNames.visible);
-      this.axis[axis].scrollbar.isVisible = false;
+  renderScrollbars = () => {
+    this.renderTicking = false;
+    this.renderFrameId = null;
+
+    if (!this.options.renderer) return;
+
+    this.options.renderer.render(
+      { x: this.getAxisGeometry('x'), y: this.getAxisGeometry('y') },
+      this,
+    );
+  };
+
+  /**
+   * Get the state of a scrollbar as drawn by the core
+   */
+  getAxisGeometry(axis: Axis = 'y'): SimpleBarAxisGeometry {
+    const currentAxis = this.axis[axis];
+
+    return {
+      trackSize: currentAxis.track.el?.[currentAxis.offsetSizeAttr] || 0,
+      thumbSize: currentAxis.isOverflowing ? currentAxis.scrollbar.size : 0,
+      thumbOffset: currentAxis.scrollbar.offset,
+      percentage: this.getScrollEvent(axis).percentage,
+      isOverflowing: currentAxis.isOverflowing,
+      isVisible: currentAxis.scrollbar.isVisible,
+      isDragging: this.isDragging && this.draggedAxis === axis,
+      isHovered: currentAxis.track.isHovered,
+    };
+  }
+
+  /**
+   * Add a marker on the track of an axis, replacing the one with the same id
+   */
+  addMarker(id: string, marker: SimpleBarMarker) {
+    this.removeMarker(id);
+
+    const track = this.axis[marker.axis || 'y'].track.el;
+
+    if (!track) return;
+
+    const el = getElementDocument(this.el).createElement('div');
+    addClasses(el, this.classNames.marker);
+    if (marker.className) addClasses(el, marker.className);
+    el.style.position = 'absolute';
+    el.addEventListener('click', () => this.scrollToMarker(id));
+    track.appendChild(el);
+
+    this.markers[id] = { marker, el };
+    this.positionMarker(id);
+  }
+
+  updateMarker(id: string, changes: Partial<SimpleBarMarker>) {
+    if (!this.markers[id]) return;
+
+    this.addMarker(id, { ...this.markers[id].marker, ...changes });
+  }
+
+  removeMarker(id: string) {
+    const entry = this.markers[id];
+
+    if (!entry) return;
+
+    entry.el.parentNode?.removeChild(entry.el);
+    delete this.markers[id];
+  }
+
+  removeMarkers() {
+    Object.keys(this.markers).forEach((id) => this.removeMarker(id));
+  }
+
+  /**
+   * Get the content offset a marker points to
+   */
+  getMarkerOffset(marker: SimpleBarMarker) {
+    return typeof marker.target === 'number'
+      ? marker.target
+      : this.getContentOffset(marker.target, marker.axis || 'y');
+  }
+
+  /**
+   * Get the offset of an element of the content from the start of an axis
+   */
+  getContentOffset(el: Element, axis: Axis = 'y') {
+    if (!this.contentWrapperEl) return 0;
+
+    const rect = el.getBoundingClientRect();
+    const wrapperRect = this.contentWrapperEl.getBoundingClientRect();
+
+    // The horizontal axis starts on the right on RTL
+    return (
+      this.getScrollOffset(axis) +
+      (axis === 'x' && this.isRtl
+        ? wrapperRect.right - rect.right
+        : rect[this.axis[axis].offsetAttr] -
+          wrapperRect[this.axis[axis].offsetAttr])
+    );
+  }
+
+  /**
+   * Place a marker on its track, relatively to the content size so it
+   * follows the track when it is resized
+   */
+  positionMarker(id: string) {
+    const { marker, el } = this.markers[id];
+    const axis = marker.axis || 'y';
+
+    if (!this.contentWrapperEl) return;
+
+    const contentSize =
+      this.options.virtual && axis === 'y'
+        ? this.getVirtualTotalSize()
+        : this.contentWrapperEl[this.axis[axis].scrollSizeAttr];
+    const ratio = Math.min(
+      Math.max(this.getMarkerOffset(marker) / (contentSize || 1), 0),
+      1,
+    );
+
+    el.style[this.axis[axis].offsetAttr] = `${
+      (axis === 'x' && this.isRtl ? 1 - ratio : ratio) * 100
+    }%`;
+  }
+
+  positionMarkers() {
+    Object.keys(this.markers).forEach((id) => this.positionMarker(id));
+  }
+
+  /**
+   * Scroll to the content a marker points to
+   */
+  scrollToMarker(id: string, options: SimpleBarScrollOptions = {}) {
+    const entry = this.markers[id];
+
+    if (!entry) return Promise.resolve(false);
+
+    const { target, axis = 'y' } = entry.marker;
+
+    return typeof target === 'number'
+      ? this.scrollTo({ [axis]: target }, options)
+      : this.scrollIntoView(target, options);
+  }
+
+  isMarkerElement(el: any) {
+    return Object.keys(this.markers).some((id) => this.markers[id].el === el);
+  }
+
+  /**
+   * Toggle the can-scroll classes of an axis depending on the content left
+   * on each side, left and right are swapped on RTL
+   */
+  updateEdgeClasses(axis: Axis = 'y') {
+    const scrollOffset = this.getScrollOffset(axis);
+    const maxScrollOffset = this.axis[axis].isOverflowing
+      ? this.getMaxScrollOffset(axis)
+      : 0;
+    const [startClass, endClass] =
+      axis === 'y'
+        ? [this.classNames.canScrollUp, this.classNames.canScrollDown]
+        : this.isRtl
+          ? [this.classNames.canScrollRight, this.classNames.canScrollLeft]
+          : [this.classNames.canScrollLeft, this.classNames.canScrollRight];
+
+    if (scrollOffset > 0) {
+      addClasses(this.el, startClass);
+    } else {
+      removeClasses(this.el, startClass);
+    }
+
+    if (maxScrollOffset - scrollOffset >= 1) {
+      addClasses(this.el, endClass);
+    } else {
+      removeClasses(this.el, endClass);
+    }
+  }
+
+  /**
+   * Get the scroll offset of an axis from its start, RTL included
+   */
+  getScrollOffset(axis: Axis = 'y') {
+    if (!this.contentWrapperEl) return 0;
+
+    let scrollOffset = this.contentWrapperEl[this.axis[axis].scrollOffsetAttr];
+
+    scrollOffset =
+      axis === 'x' &&
+      this.isRtl &&
+      SimpleBarCore.getRtlHelpers(this.el)?.isScrollOriginAtZero
+        ? -scrollOffset
+        : scrollOffset;
+
+    if (axis === 'x' && this.isRtl) {
+      scrollOffset = SimpleBarCore.getRtlHelpers(this.el)?.isScrollingToNegative
+        ? scrollOffset
+        : -scrollOffset;
+    }
+
+    return scrollOffset;
+  }
+
+  /**
+   * Set the scroll offset of an axis from its start, RTL included
+   */
+  setScrollOffset(axis: Axis = 'y', offset: number) {
+    if (!this.contentWrapperEl) return;
+
+    let scrollOffset = offset;
+
+    // Fix browsers inconsistency on RTL
+    if (axis === 'x' && this.isRtl) {
+      scrollOffset = SimpleBarCore.getRtlHelpers(this.el)?.isScrollingToNegative
+        ? -scrollOffset
+        : scrollOffset;
+    }
+
+    this.contentWrapperEl[this.axis[axis].scrollOffsetAttr] = scrollOffset;
+  }
+
+  /**
+   * Get the maximum scroll offset of an axis
+   */
+  getMaxScrollOffset(axis: Axis = 'y') {
+    if (!this.contentWrapperEl) return 0;
+
+    const clientSize =
+      axis === 'y'
+        ? this.contentWrapperEl.clientHeight
+        : this.contentWrapperEl.clientWidth;
+
+    return Math.max(
+      this.contentWrapperEl[this.axis[axis].scrollSizeAttr] - clientSize,
+      0,
+    );
+  }
+
+  toggleTrackVisibility(axis: Axis = 'y') {
+    const track = this.axis[axis].track.el;
+    const scrollbar = this.axis[axis].scrollbar.el;
+
+    if (!track || !scrollbar || !this.contentWrapperEl) return;
+    if (this.axis[axis].isOverflowing || this.axis[axis].forceVisible) {
+      track.style.visibility = 'visible';
+      this.contentWrapperEl.style[this.axis[axis].overflowAttr] = 'scroll';
+      this.el.classList.add(`${this.classNames.scrollable}-${axis}`);
+    } else {
+      track.style.visibility = 'hidden';
+      this.contentWrapperEl.style[this.axis[axis].overflowAttr] = 'hidden';
+      this.el.classList.remove(`${this.classNames.scrollable}-${axis}`);
+    }
+
+    // Even if forceVisible is enabled, scrollbar itself should be hidden
+    if (this.axis[axis].isOverflowing) {
+      scrollbar.style.display = 'block';
+    } else {
+      scrollbar.style.display = 'none';
+    }
+  }
+
+  /**
+   * Get the visibility policy, the autoHide option is used if the
+   * visibility option is not set. The scrollbars stay visible while one of
+   * them is dragged.
+   */
+  getVisibility(): SimpleBarVisibility {
+    const visibility =
+      this.options.visibility || (this.options.autoHide ? 'scroll' : 'always');
+
+    return this.isDragging && visibility !== 'never' ? 'always' : visibility;
+  }
+
+  showScrollbar(axis: Axis = 'y') {
+    const scrollbar = this.axis[axis].scrollbar;
+
+    if (this.getVisibility() === 'never') return;
+    if (this.axis[axis].isOverflowing && !scrollbar.isVisible) {
+      if (scrollbar.el && this.options.fadeInDuration !== null) {
+        scrollbar.el.style.transitionDuration = `${this.options.fadeInDuration}ms`;
+      }
+
+      addClasses(scrollbar.el, this.classNames.visible);
+      scrollbar.isVisible = true;
+      this.requestRender();
+    }
+  }
+
+  hideScrollbar(axis: Axis = 'y') {
+    const scrollbar = this.axis[axis].scrollbar;
+
+    if (this.getVisibility() === 'always') return;
+    if (this.axis[axis].isOverflowing && scrollbar.isVisible) {
+      if (scrollbar.el && this.options.fadeOutDuration !== null) {
+        scrollbar.el.style.transitionDuration = `${this.options.fadeOutDuration}ms`;
+      }
+
+      removeClasses(scrollbar.el, this.classNames.visible);
+      scrollbar.isVisible = false;
+      this.requestRender();
+    }
+  }
+
+  /**
+   * Show both scrollbars after the showDelay option, a pending hide is
+   * cancelled
+   */
+  requestShowScrollbars() {
+    const elWindow = getElementWindow(this.el);
+
+    if (this.hideTimeoutId !== null) {
+      elWindow.clearTimeout(this.hideTimeoutId);
+      this.hideTimeoutId = null;
+    }
+
+    if (this.showTimeoutId !== null) return;
+
+    const show = () => {
+      this.showTimeoutId = null;
+      this.showScrollbar('x');
+      this.showScrollbar('y');
+    };
+
+    if (this.options.showDelay > 0) {
+      this.showTimeoutId = elWindow.setTimeout(show, this.options.showDelay);
+    } else {
+      show();
+    }
+  }
+
+  /**
+   * Hide both scrollbars after a delay, the hideDelay option by default.
+   * Every new request restarts the delay.
+   */
+  requestHideScrollbars(delay = this.options.hideDelay) {
+    const elWindow = getElementWindow(this.el);
+
+    if (this.hideTimeoutId !== null) {
+      elWindow.clearTimeout(this.hideTimeoutId);
+      this.hideTimeoutId = null;
+    }
+
+    const hide = () => {
+      // A show still waiting for its delay would bring the scrollbars back
+      this.clearVisibilityTimeouts();
+      this.hideScrollbar('x');
+      this.hideScrollbar('y');
+    };
+
+    if (delay > 0) {
+      this.hideTimeoutId = elWindow.setTimeout(hide, delay);
+    } else {
+      hide();
+    }
+  }
+
+  /**
+   * Hide the scrollbars once nothing keeps them visible anymore, after a
+   * scroll or a drag
+   */
+  releaseScrollbars() {
+    const visibility = this.getVisibility();
+
+    if (
+      visibility === 'always' ||
+      ((visibility === 'hover' || visibility === 'leave') &&
+        this.isPointerInside)
+    ) {
+      return;
+    }
+
+    this.requestHideScrollbars();
+  }
+
+  clearVisibilityTimeouts() {
+    const elWindow = getElementWindow(this.el);
+
+    if (this.showTimeoutId !== null) {
+      elWindow.clearTimeout(this.showTimeoutId);
+      this.showTimeoutId = null;
+    }
+
+    if (this.hideTimeoutId !== null) {
+      elWindow.clearTimeout(this.hideTimeoutId);
+      this.hideTimeoutId = null;
     }
   }
 
@@ -625,8 +2225,8 @@ export default class SimpleBarCore {
       this.isScrolling = true;
     }
 
-    this.showScrollbar('x');
-    this.showScrollbar('y');
+    this.requestShowScrollbars();
+    this.releaseScrollbars();
 
     this.onStopScrolling();
   };
@@ -636,252 +2236,1489 @@ export default class SimpleBarCore {
       this.positionScrollbar('x');
     }
 
-    this.scrollXTicking = false;
-  };
+    this.updateEdgeClasses('x');
+
+    this.updateScrollState('x');
+    this.scrollXTicking = false;
+  };
+
+  scrollY = () => {
+    this.renderVirtualItems();
+
+    if (this.axis.y.isOverflowing) {
+      this.positionScrollbar('y');
+    }
+
+    this.updateEdgeClasses('y');
+
+    this.updateScrollState('y');
+    this.scrollYTicking = false;
+  };
+
+  /**
+   * Emit the scroll lifecycle events of an axis if its offset changed
+   */
+  updateScrollState(axis: Axis = 'y') {
+    const currentAxis = this.axis[axis];
+    const previousOffset = currentAxis.scrollOffset;
+    const scrollOffset = this.getScrollOffset(axis);
+
+    if (scrollOffset === previousOffset) return;
+
+    const direction = scrollOffset > previousOffset ? 'forward' : 'backward';
+    const maxScrollOffset = this.getMaxScrollOffset(axis);
+
+    currentAxis.scrollOffset = scrollOffset;
+
+    if (!currentAxis.isScrolling) {
+      currentAxis.isScrolling = true;
+      this.emit('scrollstart', this.getScrollEvent(axis, direction));
+    }
+
+    this.emit('scroll', this.getScrollEvent(axis, direction));
+
+    if (scrollOffset <= 0 && previousOffset > 0) {
+      this.emit('reachstart', this.getScrollEvent(axis, direction));
+    }
+
+    if (scrollOffset >= maxScrollOffset && previousOffset < maxScrollOffset) {
+      this.emit('reachend', this.getScrollEvent(axis, direction));
+    }
+
+    if (this.isStickToEndEnabled(axis)) {
+      const isAtEnd = scrollOffset >= maxScrollOffset - 1;
+
+      // Scrolling up stops following the content, reaching the end resumes it
+      if (
+        currentAxis.isStickingToEnd
+          ? direction === 'backward' && !isAtEnd
+          : isAtEnd
+      ) {
+        this.setStickingToEnd(axis, isAtEnd);
+      }
+    }
+
+    if (this.getSnapOptions() && axis === this.getSnapAxis()) {
+      this.updateSnapIndex();
+    }
+
+    this.checkLoadMore(axis, direction);
+  }
+
+  isStickToEndEnabled(axis: Axis = 'y') {
+    return this.options.stickToEnd === axis || this.options.stickToEnd === true;
+  }
+
+  setStickingToEnd(axis: Axis, isStickingToEnd: boolean) {
+    this.axis[axis].isStickingToEnd = isStickingToEnd;
+    this.emit('stickchange', { axis, isStickingToEnd });
+  }
+
+  /**
+   * Check if an axis is following the end of its content
+   */
+  isStickingToEnd(axis: Axis = 'y') {
+    return this.axis[axis].isStickingToEnd;
+  }
+
+  /**
+   * Scroll an axis to its end and follow the new content again
+   */
+  stickToEnd(axis: Axis = 'y') {
+    if (!this.isStickToEndEnabled(axis)) return;
+
+    if (!this.axis[axis].isStickingToEnd) {
+      this.setStickingToEnd(axis, true);
+    }
+
+    this.setScrollOffset(axis, this.getMaxScrollOffset(axis));
+  }
+
+  /**
+   * Call the loadMore callback once the scroll gets close to the edge
+   */
+  checkLoadMore(axis: Axis = 'y', direction: ScrollDirection = null) {
+    const { loadMore } = this.options;
+
+    if (!loadMore || this.isLoadingMore || !this.contentWrapperEl) return;
+
+    const axisOptions =
+      loadMore.x || loadMore.y ? loadMore[axis] : axis === 'y' ? {} : null;
+
+    if (!axisOptions) return;
+
+    const { threshold = 100, edge = 'end' } = axisOptions;
+
+    // Recalculations don't retry a failed load, or a failing endpoint would
+    // be called on every mutation of the content
+    if (
+      this.hasLoadMoreFailed[axis] &&
+      direction !== (edge === 'start' ? 'backward' : 'forward')
+    )
+      return;
+    const scrollSize = this.contentWrapperEl[this.axis[axis].scrollSizeAttr];
+    const thresholdSize =
+      typeof threshold === 'string' && threshold.slice(-1) === '%'
+        ? (parseFloat(threshold) / 100) * scrollSize
+        : parseFloat(`${threshold}`);
+    const scrollOffset = this.getScrollOffset(axis);
+    const distance =
+      edge === 'start'
+        ? scrollOffset
+        : this.getMaxScrollOffset(axis) - scrollOffset;
+
+    if (distance > thresholdSize) return;
+
+    const onLoaded = () => {
+      if (!this.contentWrapperEl) {
+        this.isLoadingMore = false;
+        return;
+      }
+
+      const newScrollSize =
+        this.contentWrapperEl[this.axis[axis].scrollSizeAttr];
+
+      // Content added at the start pushes the visible content away, move
+      // the current offset by the added size to preserve the visual position
+      if (edge === 'start') {
+        this.setScrollOffset(
+          axis,
+          this.getScrollOffset(axis) + newScrollSize - scrollSize,
+        );
+      }
+
+      // Still flagged as loading so the recalculation doesn't load again
+      this.recalculate();
+      this.isLoadingMore = false;
+
+      // Keep loading while the content is still too short
+      if (newScrollSize !== scrollSize) {
+        this.checkLoadMore(axis);
+      }
+    };
+
+    this.isLoadingMore = true;
+    this.hasLoadMoreFailed[axis] = false;
+
+    Promise.resolve()
+      .then(() => loadMore.onLoadMore({ axis, edge }))
+      .then(onLoaded, () => {
+        this.isLoadingMore = false;
+        this.hasLoadMoreFailed[axis] = true;
+      });
+  }
+
+  _onStopScrolling = () => {
+    this.isScrolling = false;
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (this.axis[axis].isScrolling) {
+        this.axis[axis].isScrolling = false;
+        this.emit('scrollend', this.getScrollEvent(axis));
+      }
+    });
+
+    this.persistScroll();
+  };
+
+  onMouseEnter = () => {
+    const visibility = this.getVisibility();
+
+    this.isPointerInside = true;
+
+    if (visibility === 'hover' || visibility === 'leave') {
+      this.requestShowScrollbars();
+    } else if (visibility === 'scroll' && !this.options.visibility) {
+      // autoHide briefly shows the scrollbars when the pointer enters
+      this.requestShowScrollbars();
+      this.releaseScrollbars();
+    }
+
+    // mouseenter reaches the ancestors first, always with their own element
+    // as target, so the nested SimpleBar hides their scrollbars itself
+    let parent = this.getParent();
+
+    while (parent) {
+      if (!parent.isScrolling) {
+        parent.requestHideScrollbars(0);
+      }
+
+      parent = parent.getParent();
+    }
+  };
+
+  _onMouseMove = (e: any) => {
+    this.mouseX = e.clientX;
+    this.mouseY = e.clientY;
+
+    // A nested SimpleBar shows and hovers its own scrollbars instead
+    if (this.getNestedInstanceAtPointer(e)) {
+      if (!this.isScrolling) {
+        this.requestHideScrollbars(0);
+      }
+
+      this.toggleTrackHover('x', false);
+      this.toggleTrackHover('y', false);
+      return;
+    }
+
+    if (this.axis.x.isOverflowing || this.axis.x.forceVisible) {
+      this.onMouseMoveForAxis('x');
+    }
+
+    if (this.axis.y.isOverflowing || this.axis.y.forceVisible) {
+      this.onMouseMoveForAxis('y');
+    }
+  };
+
+  onMouseMoveForAxis(axis: Axis = 'y') {
+    const currentAxis = this.axis[axis];
+    if (!currentAxis.track.el || !currentAxis.scrollbar.el) return;
+
+    currentAxis.track.rect = currentAxis.track.el.getBoundingClientRect();
+    currentAxis.scrollbar.rect =
+      currentAxis.scrollbar.el.getBoundingClientRect();
+
+    this.toggleTrackHover(
+      axis,
+      this.isWithinBounds(currentAxis.track.rect, this.options.hoverProximity),
+    );
+  }
+
+  /**
+   * Toggle the hover state of a track, so the handle can grow on hover
+   */
+  toggleTrackHover(axis: Axis = 'y', isHovered: boolean) {
+    const track = this.axis[axis].track;
+
+    if (track.isHovered === isHovered) return;
+
+    if (isHovered) {
+      addClasses(track.el, this.classNames.hover);
+    } else {
+      removeClasses(track.el, this.classNames.hover);
+    }
+
+    track.isHovered = isHovered;
+    this.requestRender();
+  }
+
+  onMouseLeave = () => {
+    (this.onMouseMove as DebouncedFunc<any>).cancel();
+
+    this.mouseX = -1;
+    this.mouseY = -1;
+
+    this.isPointerInside = false;
+
+    if (this.getVisibility() === 'leave') {
+      this.requestHideScrollbars(0);
+    } else if (this.getVisibility() === 'hover') {
+      this.releaseScrollbars();
+    }
+
+    this.toggleTrackHover('x', false);
+    this.toggleTrackHover('y', false);
+
+    // Back over the parent, which shows its scrollbars again
+    const parent = this.getParent();
+
+    if (parent && parent.isPointerInside) {
+      parent.onMouseEnter();
+    }
+  };
+
+  /**
+   * Animate wheel scrolling when the smoothWheel option is enabled and map
+   * vertical wheels to the x axis with the horizontalWheel option, the wheel
+   * is left to the browser once the content can't scroll any further so the
+   * parent scroll container takes over
+   */
+  onWheel = (e: WheelEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || !this.contentWrapperEl) return;
+
+    const nestedInstance = this.getNestedInstance(e);
+
+    // The innermost SimpleBar owns the wheel until it reaches its edge, and
+    // keeps it if it doesn't chain to its parent
+    if (
+      nestedInstance &&
+      (nestedInstance.options.overscrollBehavior !== 'auto' ||
+        nestedInstance.getWheelAxes(e).length)
+    ) {
+      return;
+    }
+
+    if (!this.options.smoothWheel && !this.isHorizontalWheel(e)) return;
+
+    const deltas = this.getWheelDeltas(e);
+    const axes = this.getWheelAxes(e);
+
+    if (!axes.length) {
+      if (this.options.overscrollBehavior !== 'auto') {
+        e.preventDefault();
+      }
+      return;
+    }
+
+    e.preventDefault();
+
+    if (!this.options.smoothWheel) {
+      axes.forEach((axis) => {
+        this.setScrollOffset(
+          axis,
+          Math.min(
+            Math.max(this.getScrollOffset(axis) + deltas[axis], 0),
+            this.getMaxScrollOffset(axis),
+          ),
+        );
+      });
+      return;
+    }
+
+    axes.forEach((axis) => {
+      this.wheelDelta[axis] += deltas[axis];
+    });
+
+    if (this.wheelAnimationId === null) {
+      this.wheelAnimationId = getElementWindow(this.el).requestAnimationFrame(
+        this.stepSmoothWheel,
+      );
+    }
+  };
+
+  /**
+   * Check if a mostly vertical wheel should scroll a container that only
+   * overflows horizontally
+   */
+  isHorizontalWheel(e: WheelEvent) {
+    return (
+      this.options.horizontalWheel &&
+      this.axis.x.isOverflowing &&
+      !this.axis.y.isOverflowing &&
+      Math.abs(e.deltaY) > Math.abs(e.deltaX)
+    );
+  }
+
+  /**
+   * Get the wheel distance in pixels of each axis, from the start of the axis
+   */
+  getWheelDeltas(e: WheelEvent) {
+    if (this.isHorizontalWheel(e)) {
+      // Scrolling down moves forward, to the left on RTL
+      return { x: this.normalizeWheelDelta(e.deltaY, e.deltaMode, 'x'), y: 0 };
+    }
+
+    const deltas = {
+      x: this.normalizeWheelDelta(e.deltaX, e.deltaMode, 'x'),
+      y: this.normalizeWheelDelta(e.deltaY, e.deltaMode, 'y'),
+    };
+
+    if (this.isRtl) {
+      deltas.x = -deltas.x;
+    }
+
+    return deltas;
+  }
+
+  /**
+   * Get the axes a wheel event can still scroll
+   */
+  getWheelAxes(e: WheelEvent) {
+    const deltas = this.getWheelDeltas(e);
+
+    return (['x', 'y'] as Axis[]).filter(
+      (axis) => deltas[axis] !== 0 && this.canWheelScroll(axis, deltas[axis]),
+    );
+  }
+
+  /**
+   * Convert a wheel delta in lines or pages to pixels
+   */
+  normalizeWheelDelta(delta: number, deltaMode: number, axis: Axis) {
+    if (deltaMode === 1) return delta * this.wheelLineHeight;
+
+    if (deltaMode === 2 && this.contentWrapperEl) {
+      return (
+        delta *
+        (axis === 'y'
+          ? this.contentWrapperEl.clientHeight
+          : this.contentWrapperEl.clientWidth)
+      );
+    }
+
+    return delta;
+  }
+
+  canWheelScroll(axis: Axis, delta: number) {
+    if (!this.axis[axis].isOverflowing) return false;
+
+    const scrollOffset = this.getScrollOffset(axis) + this.wheelDelta[axis];
+
+    return delta < 0
+      ? scrollOffset > 0
+      : scrollOffset < this.getMaxScrollOffset(axis);
+  }
+
+  /**
+   * Move each axis by a part of its remaining wheel delta, the rest is
+   * slowed down by the friction on the next frames
+   */
+  stepSmoothWheel = () => {
+    // A friction of 1 would never move, so it is kept below
+    const friction = Math.min(
+      Math.max(this.options.smoothWheelFriction, 0),
+      0.99,
+    );
+    let isMoving = false;
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      const delta = this.wheelDelta[axis];
+
+      if (delta === 0) return;
+
+      const step = Math.abs(delta) < 1 ? delta : delta * (1 - friction);
+      const scrollOffset = this.getScrollOffset(axis);
+      const offset = Math.min(
+        Math.max(scrollOffset + step, 0),
+        this.getMaxScrollOffset(axis),
+      );
+
+      this.setScrollOffset(axis, offset);
+
+      // Drop what is left once an edge is reached
+      this.wheelDelta[axis] = offset === scrollOffset + step ? delta - step : 0;
+      isMoving = isMoving || this.wheelDelta[axis] !== 0;
+    });
+
+    this.wheelAnimationId = isMoving
+      ? getElementWindow(this.el).requestAnimationFrame(this.stepSmoothWheel)
+      : null;
+  };
+
+  stopSmoothWheel() {
+    if (this.wheelAnimationId !== null) {
+      getElementWindow(this.el).cancelAnimationFrame(this.wheelAnimationId);
+      this.wheelAnimationId = null;
+    }
+
+    this.wheelDelta = { x: 0, y: 0 };
+  }
+
+  /**
+   * Keyboard navigation of the scroll element
+   */
+  onKeyDown = (e: KeyboardEvent) => {
+    if (
+      !this.options.keyboardNavigation ||
+      e.defaultPrevented ||
+      e.altKey ||
+      e.ctrlKey ||
+      e.metaKey ||
+      isInteractiveElement(e.target)
+    )
+      return;
+
+    const position = this.getKeyboardScrollPosition(e.key, e.shiftKey);
+
+    if (!position) return;
+
+    e.preventDefault();
+
+    this.requestShowScrollbars();
+    this.releaseScrollbars();
+    this.onStopScrolling();
+
+    this.scrollTo(this.getDirectionalSnapPosition(position), { snap: false });
+  };
+
+  /**
+   * Keyboard operation of a focused scrollbar handle, restricted to its axis
+   */
+  onScrollbarKeyDown = (e: KeyboardEvent) => {
+    const axis: Axis = e.currentTarget === this.axis.x.scrollbar.el ? 'x' : 'y';
+    const position = this.getKeyboardScrollPosition(e.key, e.shiftKey, axis);
+
+    if (!position || typeof position[axis] !== 'number') return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    this.requestShowScrollbars();
+    this.releaseScrollbars();
+    this.onStopScrolling();
+
+    this.scrollTo(this.getDirectionalSnapPosition({ [axis]: position[axis] }), {
+      snap: false,
+    });
+  };
+
+  /**
+   * Get the position a navigation key scrolls to
+   */
+  getKeyboardScrollPosition(
+    key: string,
+    shiftKey = false,
+    // Page keys scroll horizontally when only the horizontal axis overflows
+    pageAxis: Axis = !this.axis.y.isOverflowing && this.axis.x.isOverflowing
+      ? 'x'
+      : 'y',
+  ) {
+    if (!this.contentWrapperEl) return null;
+
+    const { keyboardStep, keyboardPageStep } = this.options;
+    const pageSize =
+      (pageAxis === 'y'
+        ? this.contentWrapperEl.clientHeight
+        : this.contentWrapperEl.clientWidth) * keyboardPageStep;
+    // Horizontal arrows are inverted on RTL, as the axis starts on the right
+    const rightDirection = this.isRtl ? -1 : 1;
+    const offset = {
+      x: this.getScrollOffset('x'),
+      y: this.getScrollOffset('y'),
+    };
+
+    switch (key) {
+      case 'ArrowUp':
+        return { y: offset.y - keyboardStep };
+      case 'ArrowDown':
+        return { y: offset.y + keyboardStep };
+      case 'ArrowLeft':
+        return { x: offset.x - keyboardStep * rightDirection };
+      case 'ArrowRight':
+        return { x: offset.x + keyboardStep * rightDirection };
+      case 'PageUp':
+        return { [pageAxis]: offset[pageAxis] - pageSize };
+      case 'PageDown':
+        return { [pageAxis]: offset[pageAxis] + pageSize };
+      case ' ':
+        return {
+          [pageAxis]: offset[pageAxis] + (shiftKey ? -pageSize : pageSize),
+        };
+      case 'Home':
+        return { [pageAxis]: 0 };
+      case 'End':
+        return { [pageAxis]: this.getMaxScrollOffset(pageAxis) };
+      default:
+        return null;
+    }
+  }
+
+  _onWindowResize = () => {
+    // Recalculate scrollbarWidth in case it's a zoom
+    this.scrollbarWidth = this.getScrollbarWidth();
+  };
+
+  onPointerEvent = (e: any) => {
+    if (
+      this.getNestedInstanceAtPointer(e) ||
+      this.isMarkerElement(e.target) ||
+      !this.axis.x.track.el ||
+      !this.axis.y.track.el ||
+      !this.axis.x.scrollbar.el ||
+      !this.axis.y.scrollbar.el
+    )
+      return;
+
+    let isWithinTrackXBounds, isWithinTrackYBounds;
+
+    // Touch and pen do not trigger mousemove, use the pointer position instead
+    if (e.type === 'pointerdown') {
+      this.mouseX = e.clientX;
+      this.mouseY = e.clientY;
+    }
+
+    // The hover area can be wider than the painted track, and fingers are
+    // less precise than a mouse so they can get a bigger target as well
+    const hitArea = Math.max(
+      this.options.hoverProximity,
+      e.pointerType === 'touch' ? this.options.coarsePointerHitArea : 0,
+    );
+
+    this.axis.x.track.rect = this.axis.x.track.el.getBoundingClientRect();
+    this.axis.y.track.rect = this.axis.y.track.el.getBoundingClientRect();
+
+    if (this.axis.x.isOverflowing || this.axis.x.forceVisible) {
+      isWithinTrackXBounds = this.isWithinBounds(
+        this.axis.x.track.rect,
+        hitArea,
+      );
+    }
+
+    if (this.axis.y.isOverflowing || this.axis.y.forceVisible) {
+      isWithinTrackYBounds = this.isWithinBounds(
+        this.axis.y.track.rect,
+        hitArea,
+      );
+    }
+
+    // If any pointer event is called on the scrollbar
+    if (isWithinTrackXBounds || isWithinTrackYBounds) {
+      // Prevent event leaking
+      e.stopPropagation();
+
+      if (e.type === 'pointerdown') {
+        if (isWithinTrackXBounds) {
+          this.axis.x.scrollbar.rect =
+            this.axis.x.scrollbar.el.getBoundingClientRect();
+
+          if (this.isWithinBounds(this.axis.x.scrollbar.rect, hitArea)) {
+            this.onDragStart(e, 'x');
+          } else {
+            this.onTrackClick(e, 'x');
+          }
+        }
+
+        if (isWithinTrackYBounds) {
+          this.axis.y.scrollbar.rect =
+            this.axis.y.scrollbar.el.getBoundingClientRect();
+
+          if (this.isWithinBounds(this.axis.y.scrollbar.rect, hitArea)) {
+            this.onDragStart(e, 'y');
+          } else {
+            this.onTrackClick(e, 'y');
+          }
+        }
+      }
+    }
+  };
+
+  /**
+   * on scrollbar handle drag movement starts
+   */
+  onDragStart(e: any, axis: Axis = 'y') {
+    this.isDragging = true;
+    const elDocument = getElementDocument(this.el);
+    const elWindow = getElementWindow(this.el);
+    const scrollbar = this.axis[axis].scrollbar;
+
+    // Measure how far the user's mouse is from the top of the scrollbar drag handle.
+    const eventOffset = axis === 'y' ? e.pageY : e.pageX;
+    this.axis[axis].dragOffset =
+      eventOffset - (scrollbar.rect?.[this.axis[axis].offsetAttr] || 0);
+    this.draggedAxis = axis;
+
+    // The browser snapping would fight the offsets set while dragging
+    this.suspendNativeSnap();
+
+    addClasses(this.el, this.classNames.dragging);
+    this.emit('dragstart', this.getScrollEvent(axis));
+    this.requestRender();
+
+    // Keep receiving the pointer events even if the pointer leaves the window
+    if (typeof e.pointerId === 'number') {
+      this.dragPointerId = e.pointerId;
+      scrollbar.el?.setPointerCapture?.(e.pointerId);
+    }
+
+    elDocument.addEventListener('pointermove', this.drag, true);
+    elDocument.addEventListener('pointerup', this.onEndDrag, true);
+    elDocument.addEventListener('pointercancel', this.onEndDrag, true);
+    if (this.removePreventClickId === null) {
+      elDocument.addEventListener('click', this.preventClick, true);
+      elDocument.addEventListener('dblclick', this.preventClick, true);
+    } else {
+      elWindow.clearTimeout(this.removePreventClickId);
+      this.removePreventClickId = null;
+    }
+  }
+
+  /**
+   * Drag scrollbar handle
+   */
+  drag = (e: any) => {
+    if (!this.draggedAxis || !this.contentWrapperEl || !this.isDragPointer(e))
+      return;
+
+    let eventOffset;
+    const track = this.axis[this.draggedAxis].track;
+    const trackSize = track.rect?.[this.axis[this.draggedAxis].sizeAttr] ?? 0;
+    const scrollbar = this.axis[this.draggedAxis].scrollbar;
+    const contentSize =
+      this.contentWrapperEl?.[this.axis[this.draggedAxis].scrollSizeAttr] ?? 0;
+    const hostSize = parseInt(
+      this.elStyles?.[this.axis[this.draggedAxis].sizeAttr] ?? '0px',
+      10,
+    );
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (this.draggedAxis === 'y') {
+      eventOffset = e.pageY;
+    } else {
+      eventOffset = e.pageX;
+    }
+
+    // Calculate how far the user's mouse is from the top/left of the scrollbar (minus the dragOffset).
+    let dragPos =
+      eventOffset -
+      (track.rect?.[this.axis[this.draggedAxis].offsetAttr] ?? 0) -
+      this.axis[this.draggedAxis].dragOffset;
+    dragPos =
+      this.draggedAxis === 'x' && this.isRtl
+        ? (track.rect?.[this.axis[this.draggedAxis].sizeAttr] ?? 0) -
+          scrollbar.size -
+          dragPos
+        : dragPos;
+    // Convert the mouse position into a percentage of the scrollbar height/width.
+    const dragPerc = dragPos / (trackSize - scrollbar.size);
+
+    // Scroll the content by the same percentage.
+    const scrollPos = dragPerc * (contentSize - hostSize);
+
+    this.setScrollOffset(this.draggedAxis, scrollPos);
+  };
+
+  /**
+   * End scroll handle drag
+   */
+  onEndDrag = (e: any) => {
+    if (!this.isDragPointer(e)) return;
+
+    this.isDragging = false;
+    const elDocument = getElementDocument(this.el);
+    const elWindow = getElementWindow(this.el);
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (this.dragPointerId !== null && this.draggedAxis) {
+      const scrollbarEl = this.axis[this.draggedAxis].scrollbar.el;
+
+      if (scrollbarEl?.hasPointerCapture?.(this.dragPointerId)) {
+        scrollbarEl.releasePointerCapture(this.dragPointerId);
+      }
+    }
+    this.dragPointerId = null;
+
+    removeClasses(this.el, this.classNames.dragging);
+    if (this.draggedAxis) {
+      this.emit('dragend', this.getScrollEvent(this.draggedAxis));
+      this.snapToNearest(this.draggedAxis);
+    }
+    this.requestRender();
+    this.releaseScrollbars();
+    this.onStopScrolling();
+
+    elDocument.removeEventListener('pointermove', this.drag, true);
+    elDocument.removeEventListener('pointerup', this.onEndDrag, true);
+    elDocument.removeEventListener('pointercancel', this.onEndDrag, true);
+    this.removePreventClickId = elWindow.setTimeout(() => {
+      // Remove these asynchronously so we still suppress click events
+      // generated simultaneously with mouseup.
+      elDocument.removeEventListener('click', this.preventClick, true);
+      elDocument.removeEventListener('dblclick', this.preventClick, true);
+      this.removePreventClickId = null;
+    });
+  };
+
+  /**
+   * Ignore the other pointers of a multi-touch while dragging
+   */
+  isDragPointer(e: any) {
+    return (
+      this.dragPointerId === null ||
+      typeof e.pointerId !== 'number' ||
+      e.pointerId === this.dragPointerId
+    );
+  }
+
+  /**
+   * Page the content toward the pointer, repeating while the track is pressed
+   */
+  onTrackClick(e: any, axis: Axis = 'y') {
+    const currentAxis = this.axis[axis];
+    const scrollbarEl = currentAxis.scrollbar.el;
+
+    if (!this.options.clickOnTrack || !scrollbarEl || !this.contentWrapperEl)
+      return;
+
+    // Preventing the event's default to trigger click underneath
+    e.preventDefault();
+
+    const elDocument = getElementDocument(this.el);
+    const elWindow = getElementWindow(this.el);
+    const getPointerOffset = () => (axis === 'y' ? this.mouseY : this.mouseX);
+    const scrollbarRect = scrollbarEl.getBoundingClientRect();
+    // Visual direction the scrollbar handle has to travel to reach the pointer
+    const direction =
+      getPointerOffset() < scrollbarRect[currentAxis.offsetAttr] ? -1 : 1;
+    // The horizontal track is mirrored on RTL, its start is on the right
+    const scrollDirection = axis === 'x' && this.isRtl ? -direction : direction;
+    const pageSize =
+      axis === 'y'
+        ? this.contentWrapperEl.clientHeight
+        : this.contentWrapperEl.clientWidth;
+    const maxScrollOffset = this.getMaxScrollOffset(axis);
+    const speed = 40;
+
+    const hasReachedPointer = () => {
+      const rect = scrollbarEl.getBoundingClientRect();
+      const start = rect[currentAxis.offsetAttr];
+
+      return direction === -1
+        ? start <= getPointerOffset()
+        : start + rect[currentAxis.sizeAttr] >= getPointerOffset();
+    };
+
+    const scrollPage = () => {
+      let scrolled = this.getScrollOffset(axis);
+      const target = Math.min(
+        Math.max(scrolled + scrollDirection * pageSize, 0),
+        maxScrollOffset,
+      );
+
+      const scrollTo = () => {
+        if (scrolled === target || hasReachedPointer()) {
+          this.onTrackClickEnd();
+          this.snapToNearest(axis);
+          return;
+        }
+
+        scrolled =
+          scrollDirection === -1
+            ? Math.max(scrolled - speed, target)
+            : Math.min(scrolled + speed, target);
+        this.setScrollOffset(axis, scrolled);
+
+        if (scrolled !== target) {
+          elWindow.requestAnimationFrame(scrollTo);
+        } else if (
+          this.isTrackClicking &&
+          target !== 0 &&
+          target !== maxScrollOffset
+        ) {
+          this.trackClickTimeoutId = elWindow.setTimeout(
+            scrollPage,
+            this.trackClickRepeatDelay,
+          );
+        } else {
+          this.snapToNearest(axis);
+        }
+      };
+
+      scrollTo();
+    };
+
+    this.isTrackClicking = true;
+    this.trackClickAxis = axis;
+    this.suspendNativeSnap();
+    elDocument.addEventListener('pointerup', this.onTrackClickEnd, true);
+    elDocument.addEventListener('pointercancel', this.onTrackClickEnd, true);
+
+    scrollPage();
+  }
+
+  /**
+   * Stop paging once the track is released
+   */
+  onTrackClickEnd = (e?: Event) => {
+    const elDocument = getElementDocument(this.el);
+    const elWindow = getElementWindow(this.el);
+
+    this.isTrackClicking = false;
+
+    if (this.trackClickTimeoutId !== null) {
+      elWindow.clearTimeout(this.trackClickTimeoutId);
+      this.trackClickTimeoutId = null;
+
+      // Released between two pages, a page still scrolling snaps once done
+      if (e && this.trackClickAxis) {
+        this.snapToNearest(this.trackClickAxis);
+      }
+    }
+
+    elDocument.removeEventListener('pointerup', this.onTrackClickEnd, true);
+    elDocument.removeEventListener('pointercancel', this.onTrackClickEnd, true);
+  };
+
+  /**
+   * Handler to ignore click events during drag
+   */
+  preventClick = (e: any) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  /**
+   * Subscribe to a scroll lifecycle event
+   */
+  on<K extends keyof SimpleBarEventMap>(
+    type: K,
+    listener: SimpleBarEventListener<K>,
+  ) {
+    this.eventListeners[type].push(listener);
+
+    return this;
+  }
+
+  /**
+   * Unsubscribe from a scroll lifecycle event
+   */
+  off<K extends keyof SimpleBarEventMap>(
+    type: K,
+    listener: SimpleBarEventListener<K>,
+  ) {
+    const listeners = this.eventListeners[type];
+
+    for (let i = listeners.length - 1; i >= 0; i--) {
+      const l = listeners[i] as SimpleBarEventListener<K> & {
+        listener?: SimpleBarEventListener<K>;
+      };
+
+      if (l === listener || l.listener === listener) {
+        listeners.splice(i, 1);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Subscribe to a scroll lifecycle event for its next occurrence only
+   */
+  once<K extends keyof SimpleBarEventMap>(
+    type: K,
+    listener: SimpleBarEventListener<K>,
+  ) {
+    const onceListener = Object.assign(
+      (event: SimpleBarEventMap[K]) => {
+        this.off(type, onceListener);
+        listener(event);
+      },
+      { listener },
+    );
+
+    return this.on(type, onceListener);
+  }
+
+  emit<K extends keyof SimpleBarEventMap>(
+    type: K,
+    event: SimpleBarEventMap[K],
+  ) {
+    // Copied so that once() listeners can remove themselves while emitting
+    this.eventListeners[type].slice().forEach((listener) => listener(event));
+  }
+
+  getScrollEvent(
+    axis: Axis = 'y',
+    direction: ScrollDirection = null,
+  ): SimpleBarScrollEvent {
+    const offset = this.getScrollOffset(axis);
+    const maxScrollOffset = this.getMaxScrollOffset(axis);
+
+    return {
+      axis,
+      offset,
+      percentage: maxScrollOffset ? offset / maxScrollOffset : 0,
+      direction,
+    };
+  }
+
+  /**
+   * Scroll to an offset from the start of each axis, RTL included.
+   * Resolves with false if the animation got interrupted.
+   */
+  scrollTo(position: ScrollPosition, options: SimpleBarScrollOptions = {}) {
+    this.cancelScrollAnimation();
+    this.stopSmoothWheel();
+
+    const elWindow = getElementWindow(this.el);
+    const { duration = 0, easing = 'easeInOutCubic', snap = true } = options;
+    const easingFn = typeof easing === 'function' ? easing : easings[easing];
+    const axes = (['x', 'y'] as Axis[]).filter(
+      (axis) => typeof position[axis] === 'number',
+    );
+    const from = { x: this.getScrollOffset('x'), y: this.getScrollOffset('y') };
+    const to = { ...from };
+
+    axes.forEach((axis) => {
+      const offset = position[axis] as number;
+
+      to[axis] = Math.min(
+        Math.max(
+          snap && this.getSnapOptions() && axis === this.getSnapAxis()
+            ? this.getSnappedOffset(offset)
+            : offset,
+          0,
+        ),
+        this.getMaxScrollOffset(axis),
+      );
+    });
+
+    this.suspendNativeSnap();
+
+    return new Promise<boolean>((resolve) => {
+      if (!this.contentWrapperEl || duration <= 0) {
+        axes.forEach((axis) => this.setScrollOffset(axis, to[axis]));
+        this.resumeNativeSnap();
+        resolve(!!this.contentWrapperEl);
+        return;
+      }
+
+      const startTime = Date.now();
+      const step = () => {
+        const progress = Math.min((Date.now() - startTime) / duration, 1);
+
+        axes.forEach((axis) =>
+          this.setScrollOffset(
+            axis,
+            from[axis] + (to[axis] - from[axis]) * easingFn(progress),
+          ),
+        );
+
+        if (progress < 1 && this.scrollAnimation) {
+          this.scrollAnimation.id = elWindow.requestAnimationFrame(step);
+        } else {
+          this.scrollAnimation = null;
+          this.resumeNativeSnap();
+          resolve(true);
+        }
+      };
+
+      this.scrollAnimation = {
+        id: elWindow.requestAnimationFrame(step),
+        resolve,
+      };
+    });
+  }
+
+  /**
+   * Scroll by a distance from the current offset of each axis
+   */
+  scrollBy(delta: ScrollPosition, options: SimpleBarScrollOptions = {}) {
+    const position: ScrollPosition = {};
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (typeof delta[axis] === 'number') {
+        position[axis] = this.getScrollOffset(axis) + (delta[axis] as number);
+      }
+    });
+
+    return this.scrollTo(
+      options.snap === false
+        ? position
+        : this.getDirectionalSnapPosition(position),
+      { ...options, snap: false },
+    );
+  }
+
+  /**
+   * Scroll to a progress between 0 and 1 of each axis
+   */
+  scrollToPercentage(
+    percentage: ScrollPosition,
+    options: SimpleBarScrollOptions = {},
+  ) {
+    const position: ScrollPosition = {};
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (typeof percentage[axis] === 'number') {
+        position[axis] =
+          (percentage[axis] as number) * this.getMaxScrollOffset(axis);
+      }
+    });
+
+    return this.scrollTo(position, options);
+  }
+
+  /**
+   * Scroll a descendant of the content element into view
+   */
+  scrollIntoView(el: Element, options: SimpleBarScrollIntoViewOptions = {}) {
+    const { align = 'start', offset = 0, ...scrollOptions } = options;
+
+    if (!this.contentWrapperEl || !this.contentWrapperEl.contains(el)) {
+      return Promise.resolve(false);
+    }
+
+    const rect = el.getBoundingClientRect();
+    const wrapperRect = this.contentWrapperEl.getBoundingClientRect();
+    const position: ScrollPosition = {};
+
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      if (!this.contentWrapperEl) return;
+
+      const scrollOffset = this.getScrollOffset(axis);
+      const size = rect[this.axis[axis].sizeAttr];
+      const clientSize =
+        axis === 'y'
+          ? this.contentWrapperEl.clientHeight
+          : this.contentWrapperEl.clientWidth;
+      // The horizontal axis starts on the right on RTL
+      const start =
+        axis === 'x' && this.isRtl
+          ? wrapperRect.right - rect.right
+          : rect[this.axis[axis].offsetAttr] -
+            wrapperRect[this.axis[axis].offsetAttr];
+      const startOffset = scrollOffset + start - offset;
+      const endOffset = scrollOffset + start + size - clientSize + offset;
+
+      if (align === 'start') {
+        position[axis] = startOffset;
+      } else if (align === 'end') {
+        position[axis] = endOffset;
+      } else if (align === 'center') {
+        position[axis] = scrollOffset + start + (size - clientSize) / 2;
+      } else if (startOffset < scrollOffset) {
+        position[axis] = startOffset;
+      } else if (endOffset > scrollOffset) {
+        // Keep the start in view if the element is bigger than the viewport
+        position[axis] = Math.min(endOffset, startOffset);
+      }
+    });
+
+    return this.scrollTo(position, scrollOptions);
+  }
+
+  onUserScrollInput = (e: Event) => {
+    this.cancelScrollAnimation();
+    this.pendingScrollRestore = null;
+
+    if (e.type !== 'wheel') {
+      this.stopSmoothWheel();
+    }
+  };
+
+  /**
+   * Stop the current programmatic scrolling animation
+   */
+  cancelScrollAnimation = () => {
+    if (!this.scrollAnimation) return;
+
+    const { id, resolve } = this.scrollAnimation;
+
+    getElementWindow(this.el).cancelAnimationFrame(id);
+    this.scrollAnimation = null;
+    this.resumeNativeSnap();
+    resolve(false);
+  };
+
+  getSnapOptions(): SimpleBarSnapOptions | null {
+    const { snap } = this.options;
+
+    return snap === true ? {} : snap || null;
+  }
+
+  getSnapAxis(): Axis {
+    return this.getSnapOptions()?.axis || 'y';
+  }
+
+  /**
+   * Read the snap points, from the snap option or from the scroll-snap-align
+   * of the content children, as sorted offsets of the snap axis
+   */
+  updateSnapPoints() {
+    const snapOptions = this.getSnapOptions();
+    const axis = this.getSnapAxis();
+
+    if (!snapOptions || !this.contentWrapperEl || !this.contentEl) {
+      this.snapPoints = [];
+      return;
+    }
+
+    const elWindow = getElementWindow(this.el);
+    const clientSize =
+      axis === 'y'
+        ? this.contentWrapperEl.clientHeight
+        : this.contentWrapperEl.clientWidth;
+    const maxScrollOffset = this.getMaxScrollOffset(axis);
+    const points: number[] = [];
+
+    if (snapOptions.points) {
+      snapOptions.points.forEach((point) => {
+        points.push(
+          typeof point === 'number'
+            ? point
+            : this.getContentOffset(point, axis),
+        );
+      });
+    } else {
+      Array.prototype.forEach.call(
+        this.contentEl.children,
+        (child: Element) => {
+          // Block then inline alignment, a single value applies to both
+          const aligns = elWindow
+            .getComputedStyle(child)
+            .getPropertyValue('scroll-snap-align')
+            .split(' ');
+          const align = axis === 'x' && aligns[1] ? aligns[1] : aligns[0];
+
+          if (align !== 'start' && align !== 'center' && align !== 'end')
+            return;
+
+          const offset = this.getContentOffset(child, axis);
+          const size = child.getBoundingClientRect()[this.axis[axis].sizeAttr];
+
+          points.push(
+            align === 'start'
+              ? offset
+              : align === 'end'
+                ? offset + size - clientSize
+                : offset + (size - clientSize) / 2,
+          );
+        },
+      );
+    }
+
+    this.snapPoints = points
+      .map((point) => Math.min(Math.max(point, 0), maxScrollOffset))
+      .sort((a, b) => a - b)
+      .filter(
+        (point, index, sorted) => index === 0 || point !== sorted[index - 1],
+      );
 
-  scrollY = () => {
-    if (this.axis.y.isOverflowing) {
-      this.positionScrollbar('y');
-    }
+    this.updateSnapIndex();
+  }
 
-    this.scrollYTicking = false;
-  };
+  getSnapPoints() {
+    return this.snapPoints.slice();
+  }
 
-  _onStopScrolling = () => {
-    if (this.options.autoHide) {
-      this.hideScrollbar('x');
-      this.hideScrollbar('y');
-    }
+  getNearestSnapIndex(offset: number) {
+    let nearestIndex = -1;
 
-    this.isScrolling = false;
-  };
+    this.snapPoints.forEach((point, index) => {
+      if (
+        nearestIndex === -1 ||
+        Math.abs(point - offset) <
+          Math.abs(this.snapPoints[nearestIndex] - offset)
+      ) {
+        nearestIndex = index;
+      }
+    });
 
-  onMouseEnter = () => {
-    if (!this.isMouseEntering) {
-      this.showScrollbar('x');
-      this.showScrollbar('y');
-      this.isMouseEntering = true;
-    }
+    return nearestIndex;
+  }
 
-    this.onMouseEntered();
-  };
+  getSnappedOffset(offset: number) {
+    const index = this.getNearestSnapIndex(offset);
 
-  /*
-   * _onMouseEntered would wait a stopScrollDelay of time to resolve the debounce.
-   *
-   * For instance, despite you "enter" in and "leave" at the same time the _onMouseEntered would not be fired after a stopScrollDelay of time
-   * so the this.isMouseEntering cannot be re-assigned which make the onMouseEnter() cannot show the scrollbar("y") which make it UX experience
-   * decline.
-   *
-   * So the fix is adding a "this.isMouseEntering = false" in onMouseLeave
-   * */
-  _onMouseEntered = () => {
-    if (this.options.autoHide) {
-      this.hideScrollbar('x');
-      this.hideScrollbar('y');
-    }
+    return index === -1 ? offset : this.snapPoints[index];
+  }
 
-    this.isMouseEntering = false;
-  };
+  /**
+   * Snap the target of the snap axis to the points past the current offset
+   * in the direction of travel, so a step shorter than the gap between two
+   * points still reaches the next one instead of snapping back
+   */
+  getDirectionalSnapPosition(position: ScrollPosition): ScrollPosition {
+    const axis = this.getSnapAxis();
+    const target = position[axis];
 
-  _onMouseMove = (e: any) => {
-    this.mouseX = e.clientX;
-    this.mouseY = e.clientY;
+    if (!this.getSnapOptions() || typeof target !== 'number') return position;
 
-    if (this.axis.x.isOverflowing || this.axis.x.forceVisible) {
-      this.onMouseMoveForAxis('x');
-    }
+    const offset = this.getScrollOffset(axis);
+    const points = this.snapPoints.filter((point) =>
+      target > offset ? point > offset + 1 : point < offset - 1,
+    );
 
-    if (this.axis.y.isOverflowing || this.axis.y.forceVisible) {
-      this.onMouseMoveForAxis('y');
+    if (target === offset || !points.length) {
+      return { ...position, [axis]: offset };
     }
-  };
 
-  onMouseMoveForAxis(axis: Axis = 'y') {
-    const currentAxis = this.axis[axis];
-    if (!currentAxis.track.el || !currentAxis.scrollbar.el) return;
+    return {
+      ...position,
+      [axis]: points.reduce((nearest, point) =>
+        Math.abs(point - target) < Math.abs(nearest - target) ? point : nearest,
+      ),
+    };
+  }
 
-    currentAxis.track.rect = currentAxis.track.el.getBoundingClientRect();
-    currentAxis.scrollbar.rect =
-      currentAxis.scrollbar.el.getBoundingClientRect();
+  getSnapIndex() {
+    return this.snapIndex;
   }
 
-  onMouseLeave = () => {
-    (this.onMouseMove as DebouncedFunc<any>).cancel();
+  /**
+   * Emit snapchange when the scroll offset gets nearer to another snap point
+   */
+  updateSnapIndex() {
+    const axis = this.getSnapAxis();
+    const index = this.getNearestSnapIndex(this.getScrollOffset(axis));
 
-    this.mouseX = -1;
-    this.mouseY = -1;
+    if (index === this.snapIndex) return;
 
-    this.isMouseEntering = false;
-  };
+    this.snapIndex = index;
 
-  _onWindowResize = () => {
-    // Recalculate scrollbarWidth in case it's a zoom
-    this.scrollbarWidth = this.getScrollbarWidth();
-  };
+    if (index !== -1) {
+      this.emit('snapchange', { axis, index, offset: this.snapPoints[index] });
+    }
+  }
 
-  onPointerEvent = (e: any) => {
-    if (
-      !this.axis.x.track.el ||
-      !this.axis.y.track.el ||
-      !this.axis.x.scrollbar.el ||
-      !this.axis.y.scrollbar.el
-    )
-      return;
+  /**
+   * Scroll the snap axis to the nearest snap point
+   */
+  snapToNearest(axis: Axis = this.getSnapAxis()) {
+    const snapOptions = this.getSnapOptions();
 
-    let isWithinTrackXBounds, isWithinTrackYBounds;
+    if (!snapOptions || axis !== this.getSnapAxis()) {
+      this.resumeNativeSnap();
+      return Promise.resolve(false);
+    }
 
-    this.axis.x.track.rect = this.axis.x.track.el.getBoundingClientRect();
-    this.axis.y.track.rect = this.axis.y.track.el.getBoundingClientRect();
+    return this.scrollTo(
+      { [axis]: this.getScrollOffset(axis) },
+      { duration: snapOptions.duration ?? 200 },
+    );
+  }
 
-    if (this.axis.x.isOverflowing || this.axis.x.forceVisible) {
-      isWithinTrackXBounds = this.isWithinBounds(this.axis.x.track.rect);
+  scrollToSnap(index: number, options: SimpleBarScrollOptions = {}) {
+    if (!this.getSnapOptions() || !(index in this.snapPoints)) {
+      return Promise.resolve(false);
     }
 
-    if (this.axis.y.isOverflowing || this.axis.y.forceVisible) {
-      isWithinTrackYBounds = this.isWithinBounds(this.axis.y.track.rect);
-    }
+    return this.scrollTo(
+      { [this.getSnapAxis()]: this.snapPoints[index] },
+      { duration: this.getSnapOptions()?.duration ?? 200, ...options },
+    );
+  }
 
-    // If any pointer event is called on the scrollbar
-    if (isWithinTrackXBounds || isWithinTrackYBounds) {
-      // Prevent event leaking
-      e.stopPropagation();
+  /**
+   * Scroll to the first snap point after the scroll offset
+   */
+  scrollToNextSnap(options: SimpleBarScrollOptions = {}) {
+    const offset = this.getScrollOffset(this.getSnapAxis());
+    let index = -1;
 
-      if (e.type === 'pointerdown' && e.pointerType !== 'touch') {
-        if (isWithinTrackXBounds) {
-          this.axis.x.scrollbar.rect =
-            this.axis.x.scrollbar.el.getBoundingClientRect();
+    this.snapPoints.forEach((point, pointIndex) => {
+      if (index === -1 && point > offset + 1) {
+        index = pointIndex;
+      }
+    });
 
-          if (this.isWithinBounds(this.axis.x.scrollbar.rect)) {
-            this.onDragStart(e, 'x');
-          }
-        }
+    return this.scrollToSnap(index, options);
+  }
 
-        if (isWithinTrackYBounds) {
-          this.axis.y.scrollbar.rect =
-            this.axis.y.scrollbar.el.getBoundingClientRect();
+  /**
+   * Scroll to the last snap point before the scroll offset
+   */
+  scrollToPreviousSnap(options: SimpleBarScrollOptions = {}) {
+    const offset = this.getScrollOffset(this.getSnapAxis());
+    let index = -1;
 
-          if (this.isWithinBounds(this.axis.y.scrollbar.rect)) {
-            this.onDragStart(e, 'y');
-          }
-        }
+    this.snapPoints.forEach((point, pointIndex) => {
+      if (point < offset - 1) {
+        index = pointIndex;
       }
+    });
+
+    return this.scrollToSnap(index, options);
+  }
+
+  /**
+   * Turn the CSS snapping off while the offset is set by SimpleBar, until
+   * resumeNativeSnap() is called
+   */
+  suspendNativeSnap() {
+    if (
+      !this.getSnapOptions() ||
+      !this.contentWrapperEl ||
+      this.suspendedSnapType !== null
+    ) {
+      return;
     }
-  };
+
+    this.suspendedSnapType = this.contentWrapperEl.style.scrollSnapType;
+    this.contentWrapperEl.style.scrollSnapType = 'none';
+  }
+
+  resumeNativeSnap() {
+    if (this.suspendedSnapType === null || !this.contentWrapperEl) return;
+
+    this.contentWrapperEl.style.scrollSnapType = this.suspendedSnapType;
+    this.suspendedSnapType = null;
+  }
 
   /**
-   * on scrollbar handle drag movement starts
+   * Get the nearest SimpleBar wrapping this one
    */
-  onDragStart(e: any, axis: Axis = 'y') {
-    this.isDragging = true;
-    const elDocument = getElementDocument(this.el);
-    const elWindow = getElementWindow(this.el);
-    const scrollbar = this.axis[axis].scrollbar;
+  getParent() {
+    let node = this.el.parentElement;
 
-    // Measure how far the user's mouse is from the top of the scrollbar drag handle.
-    const eventOffset = axis === 'y' ? e.pageY : e.pageX;
-    this.axis[axis].dragOffset =
-      eventOffset - (scrollbar.rect?.[this.axis[axis].offsetAttr] || 0);
-    this.draggedAxis = axis;
+    while (node) {
+      const instance = SimpleBarCore.instances.get(node);
 
-    addClasses(this.el, this.classNames.dragging);
+      if (instance) return instance;
 
-    elDocument.addEventListener('mousemove', this.drag, true);
-    elDocument.addEventListener('mouseup', this.onEndDrag, true);
-    if (this.removePreventClickId === null) {
-      elDocument.addEventListener('click', this.preventClick, true);
-      elDocument.addEventListener('dblclick', this.preventClick, true);
-    } else {
-      elWindow.clearTimeout(this.removePreventClickId);
-      this.removePreventClickId = null;
+      node = node.parentElement;
     }
+
+    return null;
   }
 
   /**
-   * Drag scrollbar handle
+   * Get the SimpleBars directly nested in this one
    */
-  drag = (e: any) => {
-    if (!this.draggedAxis || !this.contentWrapperEl) return;
+  getChildren() {
+    const children: SimpleBarCore[] = [];
 
-    let eventOffset;
-    const track = this.axis[this.draggedAxis].track;
-    const trackSize = track.rect?.[this.axis[this.draggedAxis].sizeAttr] ?? 0;
-    const scrollbar = this.axis[this.draggedAxis].scrollbar;
-    const contentSize =
-      this.contentWrapperEl?.[this.axis[this.draggedAxis].scrollSizeAttr] ?? 0;
-    const hostSize = parseInt(
-      this.elStyles?.[this.axis[this.draggedAxis].sizeAttr] ?? '0px',
-      10,
+    Array.prototype.forEach.call(
+      this.el.querySelectorAll('*'),
+      (node: HTMLElement) => {
+        const instance = SimpleBarCore.instances.get(node);
+
+        if (instance && instance.getParent() === this) {
+          children.push(instance);
+        }
+      },
     );
 
-    e.preventDefault();
-    e.stopPropagation();
+    return children;
+  }
 
-    if (this.draggedAxis === 'y') {
-      eventOffset = e.pageY;
-    } else {
-      eventOffset = e.pageX;
-    }
+  /**
+   * Get the innermost SimpleBar nested in this one an event comes from
+   */
+  getNestedInstance(e: Event) {
+    let node = e.target as HTMLElement | null;
 
-    // Calculate how far the user's mouse is from the top/left of the scrollbar (minus the dragOffset).
-    let dragPos =
-      eventOffset -
-      (track.rect?.[this.axis[this.draggedAxis].offsetAttr] ?? 0) -
-      this.axis[this.draggedAxis].dragOffset;
-    dragPos =
-      this.draggedAxis === 'x' && this.isRtl
-        ? (track.rect?.[this.axis[this.draggedAxis].sizeAttr] ?? 0) -
-          scrollbar.size -
-          dragPos
-        : dragPos;
-    // Convert the mouse position into a percentage of the scrollbar height/width.
-    const dragPerc = dragPos / (trackSize - scrollbar.size);
+    while (node && node !== this.el) {
+      const instance = SimpleBarCore.instances.get(node);
 
-    // Scroll the content by the same percentage.
-    let scrollPos = dragPerc * (contentSize - hostSize);
+      if (instance) return instance;
 
-    // Fix browsers inconsistency on RTL
-    if (this.draggedAxis === 'x' && this.isRtl) {
-      scrollPos = SimpleBarCore.getRtlHelpers()?.isScrollingToNegative
-        ? -scrollPos
-        : scrollPos;
+      node = node.parentElement;
     }
 
-    this.contentWrapperEl[this.axis[this.draggedAxis].scrollOffsetAttr] =
-      scrollPos;
-  };
+    return null;
+  }
 
   /**
-   * End scroll handle drag
+   * Get the nested SimpleBar whose tracks are under the pointer, the pointer
+   * events over its tracks belong to it
    */
-  onEndDrag = (e: any) => {
-    this.isDragging = false;
-    const elDocument = getElementDocument(this.el);
-    const elWindow = getElementWindow(this.el);
-    e.preventDefault();
-    e.stopPropagation();
+  getNestedInstanceAtPointer(e: any) {
+    let node = e.target as HTMLElement | null;
 
-    removeClasses(this.el, this.classNames.dragging);
-    this.onStopScrolling();
+    while (node && node !== this.el) {
+      const instance = SimpleBarCore.instances.get(node);
 
-    elDocument.removeEventListener('mousemove', this.drag, true);
-    elDocument.removeEventListener('mouseup', this.onEndDrag, true);
-    this.removePreventClickId = elWindow.setTimeout(() => {
-      // Remove these asynchronously so we still suppress click events
-      // generated simultaneously with mouseup.
-      elDocument.removeEventListener('click', this.preventClick, true);
-      elDocument.removeEventListener('dblclick', this.preventClick, true);
-      this.removePreventClickId = null;
-    });
-  };
+      if (instance && instance.isPointerOverTracks(e.clientX, e.clientY)) {
+        return instance;
+      }
 
-  /**
-   * Handler to ignore click events during drag
-   */
-  preventClick = (e: any) => {
-    e.preventDefault();
-    e.stopPropagation();
-  };
+      node = node.parentElement;
+    }
+
+    return null;
+  }
+
+  isPointerOverTracks(x: number, y: number) {
+    return (['x', 'y'] as Axis[]).some((axis) => {
+      const { track, isOverflowing, forceVisible } = this.axis[axis];
+
+      return (
+        !!track.el &&
+        (isOverflowing || forceVisible) &&
+        this.isWithinBounds(
+          track.el.getBoundingClientRect(),
+          this.options.hoverProximity,
+          x,
+          y,
+        )
+      );
+    });
+  }
 
   /**
    * Getter for content element
@@ -899,6 +3736,7 @@ export default class SimpleBarCore {
 
   removeListeners() {
     const elWindow = getElementWindow(this.el);
+    const elDocument = getElementDocument(this.el);
     // Event listeners
     this.el.removeEventListener('mouseenter', this.onMouseEnter);
 
@@ -909,10 +3747,48 @@ export default class SimpleBarCore {
 
     if (this.contentWrapperEl) {
       this.contentWrapperEl.removeEventListener('scroll', this.onScroll);
+      this.contentWrapperEl.removeEventListener('keydown', this.onKeyDown);
+      this.contentWrapperEl.removeEventListener('wheel', this.onWheel);
+    }
+
+    this.axis.x.scrollbar.el?.removeEventListener(
+      'keydown',
+      this.onScrollbarKeyDown,
+    );
+    this.axis.y.scrollbar.el?.removeEventListener(
+      'keydown',
+      this.onScrollbarKeyDown,
+    );
+
+    ['wheel', 'touchstart', 'pointerdown', 'keydown'].forEach((type) => {
+      this.el.removeEventListener(type, this.onUserScrollInput, true);
+    });
+    this.cancelScrollAnimation();
+    this.stopSmoothWheel();
+
+    if (this.renderFrameId !== null) {
+      elWindow.cancelAnimationFrame(this.renderFrameId);
+      this.renderFrameId = null;
+      this.renderTicking = false;
     }
 
     elWindow.removeEventListener('resize', this.onWindowResize);
 
+    this.onTrackClickEnd();
+    this.resumeNativeSnap();
+
+    // Stop a drag in progress and the pending click suppression
+    elDocument.removeEventListener('pointermove', this.drag, true);
+    elDocument.removeEventListener('pointerup', this.onEndDrag, true);
+    elDocument.removeEventListener('pointercancel', this.onEndDrag, true);
+    elDocument.removeEventListener('click', this.preventClick, true);
+    elDocument.removeEventListener('dblclick', this.preventClick, true);
+
+    if (this.removePreventClickId !== null) {
+      elWindow.clearTimeout(this.removePreventClickId);
+      this.removePreventClickId = null;
+    }
+
     if (this.mutationObserver) {
       this.mutationObserver.disconnect();
     }
@@ -925,25 +3801,92 @@ export default class SimpleBarCore {
     (this.onMouseMove as DebouncedFunc<any>).cancel();
     (this.onWindowResize as DebouncedFunc<any>).cancel();
     (this.onStopScrolling as DebouncedFunc<any>).cancel();
-    (this.onMouseEntered as DebouncedFunc<any>).cancel();
+    this.clearVisibilityTimeouts();
   }
 
   /**
    * Remove all listeners from DOM nodes
    */
   unMount() {
+    this.persistScroll();
     this.removeListeners();
+    this.restoreVirtualContent();
+    this.removeMarkers();
+    this.unMountDOM();
+    this.removeShadows();
+
+    if (SimpleBarCore.instances.get(this.el) === this) {
+      SimpleBarCore.instances.delete(this.el);
+    }
+  }
+
+  /**
+   * Unmount and revert every change made to the DOM. The instance can't be
+   * used anymore afterwards.
+   */
+  destroy() {
+    if (this.isDestroyed) return;
+
+    this.unMount();
+    // Kept through unMount, as init can mount the instance again
+    this.options.renderer?.destroy?.();
+
+    removeClasses(this.el, this.classNames.dragging);
+    [
+      this.classNames.canScrollUp,
+      this.classNames.canScrollDown,
+      this.classNames.canScrollLeft,
+      this.classNames.canScrollRight,
+    ].forEach((className) => removeClasses(this.el, className));
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      removeClasses(this.el, `${this.classNames.scrollable}-${axis}`);
+      removeClasses(this.axis[axis].track.el, this.classNames.hover);
+      removeClasses(this.axis[axis].scrollbar.el, this.classNames.visible);
+
+      this.axis[axis].track.el = null;
+      this.axis[axis].track.rect = null;
+      this.axis[axis].track.isHovered = false;
+      this.axis[axis].scrollbar.el = null;
+      this.axis[axis].scrollbar.rect = null;
+      this.axis[axis].scrollbar.isVisible = false;
+      this.axis[axis].isScrolling = false;
+    });
+
+    this.initialAttributes.forEach(({ el, name, value }) => {
+      if (value === null) {
+        el.removeAttribute(name);
+      } else {
+        el.setAttribute(name, value);
+      }
+    });
+    this.initialAttributes = [];
+
+    this.wrapperEl = null;
+    this.contentWrapperEl = null;
+    this.contentEl = null;
+    this.offsetEl = null;
+    this.maskEl = null;
+    this.placeholderEl = null;
+    this.heightAutoObserverWrapperEl = null;
+    this.heightAutoObserverEl = null;
+    this.resizeObserver = null;
+    this.mutationObserver = null;
+    this.eventListeners = createEventListeners();
+    this.isScrolling = false;
+    this.isDragging = false;
+    this.isPointerInside = false;
+    this.isDestroyed = true;
   }
 
   /**
    * Check if mouse is within bounds (inside the track)
    */
-  isWithinBounds(bbox: DOMRect) {
+  isWithinBounds(bbox: DOMRect, margin = 0, x = this.mouseX, y = this.mouseY) {
     return (
-      this.mouseX >= bbox.left &&
-      this.mouseX <= bbox.left + bbox.width &&
-      this.mouseY >= bbox.top &&
-      this.mouseY <= bbox.top + bbox.height
+      x >= bbox.left - margin &&
+      x <= bbox.left + bbox.width + margin &&
+      y >= bbox.top - margin &&
+      y <= bbox.top + bbox.height + margin
     );
   }
 
@@ -951,6 +3894,8 @@ export default class SimpleBarCore {
    * Find element children matches query
    */
   findChild(el: any, query: any) {
+    if (!el) return null;
+
     const matches =
       el.matches ||
       el.webkitMatchesSelector ||
@@ -1,37 +1,45 @@
-import { canUseDOM } from './helpers';
-
-let cachedScrollbarWidth: number | null = null;
-let cachedDevicePixelRatio: number | null = null;
-
-if (canUseDOM) {
-  window.addEventListener('resize', () => {
-    if (cachedDevicePixelRatio !== window.devicePixelRatio) {
-      cachedDevicePixelRatio = window.devicePixelRatio;
-      cachedScrollbarWidth = null;
-    }
-  });
-}
-
-export default function scrollbarWidth() {
-  if (cachedScrollbarWidth === null) {
-    if (typeof document === 'undefined') {
-      cachedScrollbarWidth = 0;
-      return cachedScrollbarWidth;
-    }
+import { canUseDOM, getElementRoot } from './helpers';
+import type { ElementRoot } from './helpers';
 
-    const body = document.body;
-    const box = document.createElement('div');
+// Each document, or shadow root with its own styles, gets its own width. It
+// is measured again when the browser zoom changes the device pixel ratio.
+const cachedScrollbarWidths = new WeakMap<
+  ElementRoot,
+  { width: number; devicePixelRatio: number }
+>();
 
-    box.classList.add('simplebar-hide-scrollbar');
+export default function scrollbarWidth(element?: Element) {
+  if (!element && !canUseDOM) return 0;
 
-    body.appendChild(box);
+  const root = element ? getElementRoot(element) : document;
+  const elDocument =
+    root.nodeType === 9 ? (root as Document) : root.ownerDocument;
 
-    const width = box.getBoundingClientRect().right;
+  if (!elDocument || !elDocument.body || !elDocument.defaultView) return 0;
 
-    body.removeChild(box);
+  const devicePixelRatio = elDocument.defaultView.devicePixelRatio;
+  const cached = cachedScrollbarWidths.get(root);
 
-    cachedScrollbarWidth = width;
+  if (cached && cached.devicePixelRatio === devicePixelRatio) {
+    return cached.width;
   }
 
-  return cachedScrollbarWidth;
+  const container = root === elDocument ? elDocument.body : root;
+  const box = elDocument.createElement('div');
+
+  box.classList.add('simplebar-hide-scrollbar');
+  // The document styles don't reach a shadow root, the class only adds the
+  // ::-webkit-scrollbar rule where the SimpleBar styles are loaded
+  box.style.cssText =
+    'position:fixed;left:0;visibility:hidden;overflow-y:scroll;scrollbar-width:none';
+
+  container.appendChild(box);
+
+  const width = box.getBoundingClientRect().right;
+
+  container.removeChild(box);
+
+  cachedScrollbarWidths.set(root, { width, devicePixelRatio });
+
+  return width;
 }
@@ -0,0 +1,29 @@
+export interface SimpleBarStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export function createMemoryStorage(): SimpleBarStorage {
+  const items: { [key: string]: string } = {};
+
+  return {
+    getItem: (key) => (key in items ? items[key] : null),
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+  };
+}
+
+// Shared by every instance so the position survives a remount
+export const memoryStorage = createMemoryStorage();
+
+export function getSessionStorage(elWindow: Window = window): SimpleBarStorage {
+  // Accessing sessionStorage throws when storage is disabled
+  try {
+    if (elWindow.sessionStorage) {
+      return elWindow.sessionStorage;
+    }
+  } catch (e) {}
+
+  return memoryStorage;
+}
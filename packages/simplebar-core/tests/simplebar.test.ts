@@ -1,6 +1,12 @@
 import SimpleBar from '../src';
+import { defineSimpleBarElement, SimpleBarElement } from '../src/element';
+import type { SimpleBarOptions, SimpleBarVirtualOptions } from '../src';
+import scrollbarWidth from '../src/scrollbar-width';
+import { getSessionStorage } from '../src/storage';
 
-const template = `<div class="simplebar-wrapper">
+// Uses the default class names of the wrapper and the tracks, which the
+// nested tests select the elements by
+const template = `<div class="simplebar-scroll-content">
 <div class="simplebar-height-auto-observer-wrapper">
   <div class="simplebar-height-auto-observer"></div>
 </div>
@@ -13,10 +19,10 @@ const template = `<div class="simplebar-wrapper">
 </div>
 <div class="simplebar-placeholder"></div>
 </div>
-<div class="simplebar-track simplebar-horizontal">
+<div class="simplebar-track horizontal">
 <div class="simplebar-scrollbar"></div>
 </div>
-<div class="simplebar-track simplebar-vertical">
+<div class="simplebar-track vertical">
 <div class="simplebar-scrollbar"></div>
 </div>`;
 
@@ -27,6 +33,76 @@ beforeEach(() => {
   document.body.innerHTML = `<div id="simplebar" data-simplebar="init" data-simplebar-force-visible="true">${template}</div>`;
 });
 
+// The unmount test stubs SimpleBar.prototype.init
+const { init } = SimpleBar.prototype;
+
+afterEach(() => {
+  SimpleBar.prototype.init = init;
+});
+
+type ScrollState = { offset: number; size: number };
+
+// Mounts SimpleBar on a 100px viewport of `scroll.size` pixels of content
+// along `axis`, with its scroll offset read from and written to `scroll`
+const createScrollingSimpleBar = (
+  options: SimpleBarOptions = {},
+  scroll: ScrollState = { offset: 0, size: 1000 },
+  axis: 'x' | 'y' = 'y'
+) => {
+  const element = document.getElementById('simplebar') as HTMLElement;
+  const contentWrapperEl = element.querySelector(
+    '.simplebar-content-wrapper'
+  ) as HTMLElement;
+  const [clientSize, scrollSize] =
+    axis === 'y'
+      ? ['clientHeight', 'scrollHeight']
+      : ['clientWidth', 'scrollWidth'];
+
+  // Sized before mounting, as mounting already measures the content
+  Object.defineProperty(contentWrapperEl, clientSize, {
+    value: 100,
+    configurable: true,
+  });
+  Object.defineProperty(contentWrapperEl, scrollSize, {
+    get: () => scroll.size,
+    configurable: true,
+  });
+
+  const simpleBar = new SimpleBar(element, options);
+
+  jest
+    .spyOn(simpleBar, 'getScrollOffset')
+    .mockImplementation((a) => (a === axis ? scroll.offset : 0));
+  jest.spyOn(simpleBar, 'setScrollOffset').mockImplementation((a, offset) => {
+    if (a === axis) scroll.offset = offset;
+  });
+
+  return simpleBar;
+};
+
+const mockRect = (el: HTMLElement | null, rect: Partial<DOMRect>) =>
+  jest
+    .spyOn(el as HTMLElement, 'getBoundingClientRect')
+    .mockReturnValue(rect as DOMRect);
+
+// Lays the vertical track out along the right edge of a 100px wide element,
+// with a 20px thumb at its top
+const mockVerticalTrack = (simpleBar: SimpleBar) => {
+  simpleBar.axis.y.isOverflowing = true;
+  mockRect(simpleBar.axis.y.track.el, {
+    top: 0,
+    left: 90,
+    width: 10,
+    height: 100,
+  });
+  mockRect(simpleBar.axis.y.scrollbar.el, {
+    top: 0,
+    left: 90,
+    width: 10,
+    height: 20,
+  });
+};
+
 test('should call constructor', () => {
   const SimpleBar = require('../src/index').default;
   jest.mock('../src/index');
@@ -145,63 +221,1608 @@ test('onPointerEvent listener should be unsubscribed on unmount', () => {
   expect(simpleBar.onPointerEvent).not.toHaveBeenCalled();
 });
 
-describe('nested SimpleBars with initiated DOM', () => {
-  let parent: SimpleBar;
-  let child: SimpleBar;
+test('generateDOM wraps the element children into the SimpleBar markup', () => {
+  document.body.innerHTML = `<div id="simplebar"><p id="child">content</p></div>`;
+
+  const element = document.getElementById('simplebar') as HTMLElement;
+  const simpleBar = new SimpleBar(element, {
+    generateDOM: true,
+    classNames: { contentEl: 'simplebar-content custom-content' },
+  });
+
+  expect(simpleBar.contentEl?.className).toEqual(
+    'simplebar-content custom-content'
+  );
+  expect(simpleBar.contentEl?.firstChild).toBe(
+    document.getElementById('child')
+  );
+  expect(simpleBar.maskEl).not.toBeNull();
+  expect(simpleBar.placeholderEl).toBeTruthy();
+  expect(simpleBar.axis.x.scrollbar.el).not.toBeNull();
+  expect(simpleBar.axis.y.scrollbar.el).not.toBeNull();
+});
+
+test('unMount restores the children of a generated DOM', () => {
+  const initialHTML = `<p id="child">content</p> text`;
+  document.body.innerHTML = `<div id="simplebar">${initialHTML}</div>`;
+
+  const element = document.getElementById('simplebar') as HTMLElement;
+  const simpleBar = new SimpleBar(element, { generateDOM: true });
+
+  simpleBar.unMount();
+
+  expect(element.innerHTML).toEqual(initialHTML);
+});
+
+test('generateDOM keeps existing markup', () => {
+  const element = document.getElementById('simplebar') as HTMLElement;
+  const wrapperEl = element.firstElementChild;
+  const simpleBar = new SimpleBar(element, { generateDOM: true });
+
+  expect(simpleBar.isDOMGenerated).toBe(false);
+  expect(simpleBar.wrapperEl).toBe(wrapperEl);
+
+  simpleBar.unMount();
+
+  expect(element.firstElementChild).toBe(wrapperEl);
+});
+
+describe('click on track', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
 
   beforeEach(() => {
-    // Set up our document body
-    document.body.innerHTML = `<div id="simplebar-parent">${template}<div id="simplebar-child">${template}</div></div>`;
+    jest.useFakeTimers();
 
-    parent = new SimpleBar(
-      document.getElementById('simplebar-parent') as HTMLElement
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar({}, scroll);
+    mockVerticalTrack(simpleBar);
+
+    simpleBar.mouseY = 150;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should page the content toward the pointer', () => {
+    simpleBar.onTrackClick(new MouseEvent('pointerdown'), 'y');
+
+    expect(scroll.offset).toEqual(40);
+
+    // Releasing the track still finishes the current page
+    document.dispatchEvent(new MouseEvent('pointerup'));
+    jest.runAllTimers();
+
+    expect(simpleBar.isTrackClicking).toBe(false);
+    expect(scroll.offset).toEqual(100);
+  });
+
+  test('should keep paging while the track is pressed', () => {
+    simpleBar.onTrackClick(new MouseEvent('pointerdown'), 'y');
+    jest.advanceTimersByTime(500);
+
+    expect(scroll.offset).toBeGreaterThan(100);
+
+    simpleBar.onTrackClickEnd();
+  });
+
+  test('should do nothing if clickOnTrack is disabled', () => {
+    simpleBar.options.clickOnTrack = false;
+    simpleBar.onTrackClick(new MouseEvent('pointerdown'), 'y');
+    jest.runAllTimers();
+
+    expect(simpleBar.setScrollOffset).not.toHaveBeenCalled();
+  });
+});
+
+describe('html api', () => {
+  const waitForMutations = () =>
+    new Promise((resolve) => window.setTimeout(resolve));
+
+  beforeEach(() => {
+    document.body.innerHTML = `<div id="simplebar" data-simplebar data-simplebar-auto-hide="false"><p>content</p></div>`;
+  });
+
+  afterEach(() => {
+    SimpleBar.removeObserver();
+  });
+
+  test('should init [data-simplebar] elements once the DOM is ready', async () => {
+    const element = document.getElementById('simplebar') as HTMLElement;
+
+    SimpleBar.initHtmlApi();
+    await waitForMutations();
+
+    const instance = SimpleBar.instances.get(element);
+
+    expect(instance).toBeInstanceOf(SimpleBar);
+    expect(instance?.options.autoHide).toBe(false);
+    expect(instance?.isDOMGenerated).toBe(true);
+  });
+
+  test('should mount and unmount elements added or removed later', async () => {
+    SimpleBar.initHtmlApi();
+    await waitForMutations();
+
+    const container = document.createElement('div');
+    container.innerHTML = `<div id="added" data-simplebar></div>`;
+    document.body.appendChild(container);
+    await waitForMutations();
+
+    const element = document.getElementById('added') as HTMLElement;
+    const instance = SimpleBar.instances.get(element) as SimpleBar;
+
+    expect(instance).toBeInstanceOf(SimpleBar);
+
+    jest.spyOn(instance, 'unMount');
+    document.body.removeChild(container);
+    await waitForMutations();
+
+    expect(instance.unMount).toHaveBeenCalled();
+    expect(SimpleBar.instances.has(element)).toBe(false);
+  });
+
+  test('should skip elements already initiated by a plugin', async () => {
+    const element = document.getElementById('simplebar') as HTMLElement;
+    element.setAttribute('data-simplebar', 'init');
+
+    SimpleBar.initHtmlApi();
+    await waitForMutations();
+
+    expect(SimpleBar.instances.has(element)).toBe(false);
+  });
+
+  test('should leave the removal of initiated elements to their plugin', async () => {
+    SimpleBar.initHtmlApi();
+    await waitForMutations();
+
+    const element = document.createElement('div');
+    element.setAttribute('data-simplebar', 'init');
+    document.body.appendChild(element);
+
+    const instance = new SimpleBar(element);
+    jest.spyOn(instance, 'unMount');
+    document.body.removeChild(element);
+    await waitForMutations();
+
+    expect(instance.unMount).not.toHaveBeenCalled();
+    expect(SimpleBar.instances.get(element)).toBe(instance);
+
+    instance.unMount();
+  });
+});
+
+describe('events', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 300 };
+    simpleBar = createScrollingSimpleBar({}, scroll);
+  });
+
+  test('should emit the scroll lifecycle events', () => {
+    const onScrollStart = jest.fn();
+    const onScroll = jest.fn();
+    const onReachEnd = jest.fn();
+    const onScrollEnd = jest.fn();
+
+    simpleBar
+      .on('scrollstart', onScrollStart)
+      .on('scroll', onScroll)
+      .on('reachend', onReachEnd)
+      .on('scrollend', onScrollEnd);
+
+    scroll.offset = 100;
+    simpleBar.scrollY();
+    scroll.offset = 200;
+    simpleBar.scrollY();
+    simpleBar._onStopScrolling();
+
+    expect(onScrollStart).toHaveBeenCalledTimes(1);
+    expect(onScroll).toHaveBeenCalledTimes(2);
+    expect(onScroll).toHaveBeenLastCalledWith({
+      axis: 'y',
+      offset: 200,
+      percentage: 1,
+      direction: 'forward',
+    });
+    expect(onReachEnd).toHaveBeenCalledTimes(1);
+    expect(onScrollEnd).toHaveBeenCalledTimes(1);
+  });
+
+  test('should unsubscribe listeners', () => {
+    const onScroll = jest.fn();
+    const onScrollOnce = jest.fn();
+
+    simpleBar.on('scroll', onScroll).once('scroll', onScrollOnce);
+
+    scroll.offset = 100;
+    simpleBar.scrollY();
+    simpleBar.off('scroll', onScroll);
+    scroll.offset = 50;
+    simpleBar.scrollY();
+
+    expect(onScroll).toHaveBeenCalledTimes(1);
+    expect(onScrollOnce).toHaveBeenCalledTimes(1);
+  });
+
+  test('should emit overflowchange when recalculating', () => {
+    const onOverflowChange = jest.fn();
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.on('overflowchange', onOverflowChange);
+    simpleBar.recalculate();
+
+    expect(onOverflowChange).toHaveBeenCalledWith({
+      axis: 'y',
+      isOverflowing: false,
+    });
+  });
+});
+
+describe('programmatic scroll', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar({}, scroll);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should scroll instantly without duration', async () => {
+    await expect(simpleBar.scrollTo({ y: 2000 })).resolves.toBe(true);
+    expect(scroll.offset).toEqual(900);
+
+    await simpleBar.scrollBy({ y: -100 });
+    expect(scroll.offset).toEqual(800);
+
+    await simpleBar.scrollToPercentage({ y: 0.5 });
+    expect(scroll.offset).toEqual(450);
+  });
+
+  test('should animate the scroll', async () => {
+    const promise = simpleBar.scrollTo(
+      { y: 500 },
+      { duration: 300, easing: 'linear' }
     );
-    child = new SimpleBar(
-      document.getElementById('simplebar-child') as HTMLElement
+
+    jest.advanceTimersByTime(160);
+    expect(scroll.offset).toBeGreaterThan(0);
+    expect(scroll.offset).toBeLessThan(500);
+
+    jest.advanceTimersByTime(200);
+    await expect(promise).resolves.toBe(true);
+    expect(scroll.offset).toEqual(500);
+  });
+
+  test('should stop the animation on user input', async () => {
+    const promise = simpleBar.scrollTo({ y: 500 }, { duration: 300 });
+
+    simpleBar.el.dispatchEvent(new Event('wheel'));
+
+    await expect(promise).resolves.toBe(false);
+    expect(scroll.offset).toEqual(0);
+  });
+
+  test('should scroll an element into view', async () => {
+    const contentWrapperEl = simpleBar.contentWrapperEl as HTMLElement;
+    const target = document.createElement('div');
+    simpleBar.contentEl?.appendChild(target);
+
+    mockRect(contentWrapperEl, { top: 0, left: 0, right: 100 });
+    mockRect(target, { top: 300, left: 0, right: 100, height: 50 });
+
+    await simpleBar.scrollIntoView(target, { offset: 10 });
+    expect(scroll.offset).toEqual(290);
+
+    scroll.offset = 0;
+    await simpleBar.scrollIntoView(target, { align: 'nearest' });
+    expect(scroll.offset).toEqual(250);
+  });
+});
+
+describe('keyboard navigation', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar(
+      { ariaLabel: 'custom label', tabIndex: -1 },
+      scroll
     );
+  });
 
-    parent.initDOM(); // trigger DOM selectors
+  test('should set the accessibility attributes', () => {
+    const contentWrapperEl = simpleBar.contentWrapperEl as HTMLElement;
+
+    expect(contentWrapperEl.getAttribute('role')).toEqual('region');
+    expect(contentWrapperEl.getAttribute('aria-label')).toEqual('custom label');
+    expect(contentWrapperEl.getAttribute('tabindex')).toEqual('-1');
   });
 
-  test('should select correct wrapper element', () => {
-    expect(parent.wrapperEl).not.toBe(child.wrapperEl);
+  test('should scroll with navigation keys', () => {
+    const contentWrapperEl = simpleBar.contentWrapperEl as HTMLElement;
+    const keydown = (key: string) =>
+      contentWrapperEl.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true })
+      );
+
+    keydown('ArrowDown');
+    expect(scroll.offset).toEqual(40);
+
+    keydown('PageDown');
+    expect(scroll.offset).toEqual(130);
+
+    keydown('End');
+    expect(scroll.offset).toEqual(900);
+
+    keydown('Home');
+    expect(scroll.offset).toEqual(0);
   });
 
-  test('should select correct content wrapper element', () => {
-    expect(parent.contentWrapperEl).not.toBe(child.contentWrapperEl);
+  test('should not intercept keys from interactive elements', () => {
+    const input = document.createElement('input');
+    const button = document.createElement('button');
+    const slider = document.createElement('div');
+    const editor = document.createElement('div');
+    slider.setAttribute('role', 'slider');
+    editor.setAttribute('contenteditable', '');
+    simpleBar.contentEl?.append(input, button, slider, editor);
+
+    input.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true })
+    );
+    button.dispatchEvent(
+      new KeyboardEvent('keydown', { key: ' ', bubbles: true })
+    );
+    slider.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true })
+    );
+    editor.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'End', bubbles: true })
+    );
+
+    expect(scroll.offset).toEqual(0);
   });
 
-  test('should select correct content element', () => {
-    expect(parent.contentEl).not.toBe(child.contentEl);
+  test('should scroll with keys from focusable content without a widget role', () => {
+    const item = document.createElement('div');
+    item.setAttribute('role', 'listitem');
+    item.tabIndex = 0;
+    simpleBar.contentEl?.appendChild(item);
+
+    item.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true })
+    );
+
+    expect(scroll.offset).toEqual(40);
   });
+});
 
-  test('should select correct offset element', () => {
-    expect(parent.offsetEl).not.toBe(child.offsetEl);
+describe('aria scrollbars', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar({ ariaScrollbars: true }, scroll);
   });
 
-  test('should select correct mask element', () => {
-    expect(parent.maskEl).not.toBe(child.maskEl);
+  test('should give the focusable handles the scrollbar role', () => {
+    const scrollbar = simpleBar.axis.y.scrollbar.el as HTMLElement;
+
+    expect(scrollbar.getAttribute('role')).toEqual('scrollbar');
+    expect(scrollbar.getAttribute('tabindex')).toEqual('0');
+    expect(scrollbar.getAttribute('aria-controls')).toEqual(
+      simpleBar.contentWrapperEl?.id
+    );
+    expect(scrollbar.getAttribute('aria-orientation')).toEqual('vertical');
+    expect(
+      simpleBar.axis.x.scrollbar.el?.getAttribute('aria-orientation')
+    ).toEqual('horizontal');
+    expect(simpleBar.axis.y.track.el?.hasAttribute('role')).toBe(false);
   });
 
-  test('should select correct placeholder element', () => {
-    expect(parent.placeholderEl).not.toBe(child.placeholderEl);
+  test('should keep aria-valuenow in sync with the scroll position', () => {
+    simpleBar.axis.y.isOverflowing = true;
+    scroll.offset = 450;
+    simpleBar.positionScrollbar('y');
+
+    expect(
+      simpleBar.axis.y.scrollbar.el?.getAttribute('aria-valuenow')
+    ).toEqual('50');
   });
 
-  test('should select correct height auto observer wrapper element', () => {
-    expect(parent.heightAutoObserverWrapperEl).not.toBe(
-      child.heightAutoObserverWrapperEl
+  test('should operate the scrollbar handle with arrow keys', () => {
+    simpleBar.axis.y.scrollbar.el?.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true })
     );
+
+    expect(scroll.offset).toEqual(40);
   });
+});
 
-  test('should select correct height auto observer element', () => {
-    expect(parent.heightAutoObserverEl).not.toBe(child.heightAutoObserverEl);
+describe('pointer dragging', () => {
+  const createPointerEvent = (
+    type: string,
+    init: { clientX?: number; clientY?: number; pointerType?: string } = {}
+  ) => {
+    const event = new MouseEvent(type, { bubbles: true, ...init });
+
+    Object.defineProperty(event, 'pointerId', { value: 1 });
+    Object.defineProperty(event, 'pointerType', {
+      value: init.pointerType || 'mouse',
+    });
+
+    return event;
+  };
+
+  test('should drag the scrollbar handle with touch', () => {
+    const simpleBar = createScrollingSimpleBar();
+    mockVerticalTrack(simpleBar);
+
+    simpleBar.el.dispatchEvent(
+      createPointerEvent('pointerdown', {
+        clientX: 95,
+        clientY: 10,
+        pointerType: 'touch',
+      })
+    );
+
+    expect(simpleBar.isDragging).toBe(true);
+    expect(simpleBar.draggedAxis).toEqual('y');
+    expect(simpleBar.dragPointerId).toEqual(1);
+
+    document.dispatchEvent(createPointerEvent('pointercancel'));
+
+    expect(simpleBar.isDragging).toBe(false);
+    expect(simpleBar.dragPointerId).toBeNull();
   });
 
-  test('should select correct x track element', () => {
-    expect(parent.axis.x.track.el).not.toBe(child.axis.x.track.el);
+  test('should give coarse pointers a bigger hit area', () => {
+    const pointerdown = () =>
+      createPointerEvent('pointerdown', {
+        clientX: 80,
+        clientY: 10,
+        pointerType: 'touch',
+      });
+
+    const simpleBar = createScrollingSimpleBar();
+    mockVerticalTrack(simpleBar);
+    simpleBar.el.dispatchEvent(pointerdown());
+    expect(simpleBar.isDragging).toBe(false);
+
+    const coarseSimpleBar = createScrollingSimpleBar({
+      coarsePointerHitArea: 12,
+    });
+    mockVerticalTrack(coarseSimpleBar);
+    coarseSimpleBar.el.dispatchEvent(pointerdown());
+    expect(coarseSimpleBar.isDragging).toBe(true);
+
+    coarseSimpleBar.unMount();
   });
+});
 
-  test('should select correct y track element', () => {
-    expect(parent.axis.y.track.el).not.toBe(child.axis.y.track.el);
+describe('track hover', () => {
+  test('should toggle the hover class when the pointer is on the track', () => {
+    const simpleBar = createScrollingSimpleBar();
+    mockVerticalTrack(simpleBar);
+    const track = simpleBar.axis.y.track.el as HTMLElement;
+
+    simpleBar._onMouseMove({ clientX: 95, clientY: 10 });
+    expect(track.classList.contains('hover')).toBe(true);
+
+    simpleBar._onMouseMove({ clientX: 50, clientY: 10 });
+    expect(track.classList.contains('hover')).toBe(false);
+  });
+
+  test('should toggle the hover class when the pointer is close to the track', () => {
+    const simpleBar = createScrollingSimpleBar({ hoverProximity: 20 });
+    mockVerticalTrack(simpleBar);
+    const track = simpleBar.axis.y.track.el as HTMLElement;
+
+    simpleBar._onMouseMove({ clientX: 75, clientY: 10 });
+    expect(track.classList.contains('hover')).toBe(true);
+
+    simpleBar.onMouseLeave();
+    expect(track.classList.contains('hover')).toBe(false);
+  });
+});
+
+describe('destroy', () => {
+  test('should revert every change made to the DOM', () => {
+    const element = document.getElementById('simplebar') as HTMLElement;
+    const initialHTML = element.innerHTML;
+    const initialClassName = element.className;
+    const simpleBar = new SimpleBar(element, {
+      ariaScrollbars: true,
+      autoHide: false,
+    });
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.toggleTrackVisibility('y');
+    simpleBar.showScrollbar('y');
+    simpleBar.toggleTrackHover('y', true);
+
+    expect(element.innerHTML).not.toEqual(initialHTML);
+
+    simpleBar.destroy();
+
+    expect(element.innerHTML).toEqual(initialHTML);
+    expect(element.className).toEqual(initialClassName);
+    expect(SimpleBar.instances.has(element)).toBe(false);
+  });
+
+  test('should clear the pending click suppression', () => {
+    jest.useFakeTimers();
+
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement
+    );
+    const clearTimeout = jest.spyOn(window, 'clearTimeout');
+
+    simpleBar.onDragStart(new MouseEvent('pointerdown'), 'y');
+    simpleBar.onEndDrag(new MouseEvent('pointerup'));
+    simpleBar.destroy();
+
+    expect(clearTimeout).toHaveBeenCalled();
+    expect(simpleBar.removePreventClickId).toBeNull();
+
+    clearTimeout.mockRestore();
+    jest.useRealTimers();
+  });
+
+  test('should make further calls safe', async () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement
+    );
+
+    simpleBar.destroy();
+
+    expect(() => {
+      simpleBar.destroy();
+      simpleBar.init();
+      simpleBar.recalculate();
+      simpleBar.positionScrollbar('y');
+      simpleBar.showScrollbar('y');
+      simpleBar.unMount();
+    }).not.toThrow();
+    await expect(simpleBar.scrollTo({ y: 100 })).resolves.toBe(false);
+    expect(simpleBar.getScrollElement()).toBeNull();
+  });
+});
+
+describe('load more', () => {
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+  });
+
+  test('should load more once close to the end', async () => {
+    let resolveLoad = () => {};
+    const onLoadMore = jest.fn(
+      () => new Promise<void>((resolve) => (resolveLoad = resolve))
+    );
+    const simpleBar = createScrollingSimpleBar(
+      { loadMore: { onLoadMore, y: { threshold: '10%' } } },
+      scroll
+    );
+
+    scroll.offset = 700;
+    simpleBar.scrollY();
+    await Promise.resolve();
+    expect(onLoadMore).not.toHaveBeenCalled();
+
+    scroll.offset = 850;
+    simpleBar.scrollY();
+    scroll.offset = 860;
+    simpleBar.scrollY();
+    await Promise.resolve();
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+    expect(onLoadMore).toHaveBeenCalledWith({ axis: 'y', edge: 'end' });
+
+    resolveLoad();
+    await new Promise((resolve) => window.setTimeout(resolve));
+
+    expect(simpleBar.isLoadingMore).toBe(false);
+  });
+
+  test('should preserve the scroll position when loading at the start', async () => {
+    const onLoadMore = jest.fn(() => {
+      scroll.size = 1500;
+      // scrolled by the user during the load
+      scroll.offset = 40;
+    });
+    const simpleBar = createScrollingSimpleBar(
+      { loadMore: { onLoadMore, y: { edge: 'start', threshold: 50 } } },
+      scroll
+    );
+
+    scroll.offset = 100;
+    simpleBar.scrollY();
+    scroll.offset = 20;
+    simpleBar.scrollY();
+    await new Promise((resolve) => window.setTimeout(resolve));
+
+    expect(onLoadMore).toHaveBeenCalledWith({ axis: 'y', edge: 'start' });
+    expect(scroll.offset).toEqual(540);
+  });
+
+  test('should load more on short content and only retry a failed load on scroll', async () => {
+    const onLoadMore = jest.fn(() => Promise.reject(new Error('offline')));
+
+    scroll.size = 50;
+    const simpleBar = createScrollingSimpleBar(
+      { loadMore: { onLoadMore } },
+      scroll
+    );
+    await new Promise((resolve) => window.setTimeout(resolve));
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+    expect(simpleBar.isLoadingMore).toBe(false);
+
+    simpleBar.recalculate();
+    await Promise.resolve();
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+    scroll.size = 1000;
+    scroll.offset = 850;
+    simpleBar.scrollY();
+    await Promise.resolve();
+    expect(onLoadMore).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('scroll persistence', () => {
+  let scroll: ScrollState;
+  let items: { [key: string]: string };
+
+  const storage = {
+    getItem: (key: string) => items[key] || null,
+    setItem: (key: string, value: string) => {
+      items[key] = value;
+    },
+  };
+
+  const persistOptions = { persistKey: 'list', persistStorage: storage };
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+    items = {};
+  });
+
+  test('should save the position when scrolling ends', () => {
+    const simpleBar = createScrollingSimpleBar(persistOptions, scroll);
+
+    scroll.offset = 300;
+    simpleBar.scrollY();
+    simpleBar._onStopScrolling();
+
+    expect(JSON.parse(items['simplebar:list'])).toEqual({ x: 0, y: 300 });
+  });
+
+  test('should restore the position once the content is laid out', () => {
+    items['simplebar:list'] = JSON.stringify({ x: 0, y: 1500 });
+    scroll.size = 100;
+
+    const simpleBar = createScrollingSimpleBar(persistOptions, scroll);
+
+    simpleBar.recalculate();
+    expect(scroll.offset).toBe(0);
+    expect(simpleBar.pendingScrollRestore).toEqual({ y: 1500 });
+
+    scroll.size = 2000;
+    simpleBar.recalculate();
+
+    expect(scroll.offset).toBe(1500);
+    expect(simpleBar.pendingScrollRestore).toBe(null);
+  });
+
+  test('should drop a position the content is too short for', () => {
+    items['simplebar:list'] = JSON.stringify({ x: 0, y: 1500 });
+    scroll.size = 100;
+
+    const simpleBar = createScrollingSimpleBar(persistOptions, scroll);
+
+    scroll.size = 1000;
+    simpleBar.recalculate();
+
+    expect(scroll.offset).toBe(900);
+    expect(simpleBar.pendingScrollRestore).toBe(null);
+
+    simpleBar.unMount();
+    expect(JSON.parse(items['simplebar:list'])).toEqual({ x: 0, y: 900 });
+  });
+
+  test('should use the session storage of the window of the element', () => {
+    const elWindow = { sessionStorage: storage } as unknown as Window;
+
+    expect(getSessionStorage(elWindow)).toBe(storage);
+  });
+
+  test('should not restore after the user scrolled', () => {
+    items['simplebar:list'] = JSON.stringify({ x: 0, y: 1500 });
+    scroll.size = 100;
+
+    const simpleBar = createScrollingSimpleBar(persistOptions, scroll);
+
+    simpleBar.el.dispatchEvent(new Event('wheel'));
+    scroll.size = 2000;
+    simpleBar.recalculate();
+
+    expect(scroll.offset).toBe(0);
+  });
+});
+
+describe('virtual list', () => {
+  let scroll: ScrollState;
+
+  const virtualOptions = (itemCount: number): SimpleBarOptions => ({
+    virtual: {
+      itemCount,
+      estimateSize: () => 20,
+      renderItem: (index) => {
+        const item = document.createElement('div');
+        item.textContent = `Item ${index}`;
+        return item;
+      },
+    },
+  });
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+  });
+
+  test('should only render the visible items', () => {
+    const simpleBar = createScrollingSimpleBar(virtualOptions(50000), scroll);
+    const contentEl = simpleBar.getContentElement() as HTMLElement;
+
+    scroll.offset = 1000;
+    simpleBar.scrollY();
+
+    expect(contentEl.children.length).toBe(11);
+    expect(contentEl.firstElementChild?.textContent).toBe('Item 47');
+    expect(contentEl.style.paddingTop).toBe('940px');
+    expect(contentEl.style.paddingBottom).toBe(`${(50000 - 58) * 20}px`);
+  });
+
+  test('should keep the items still in range when scrolling', () => {
+    const simpleBar = createScrollingSimpleBar(virtualOptions(50000), scroll);
+    const contentEl = simpleBar.getContentElement() as HTMLElement;
+    const renderItem = jest.spyOn(
+      simpleBar.options.virtual as SimpleBarVirtualOptions,
+      'renderItem'
+    );
+
+    scroll.offset = 1000;
+    simpleBar.scrollY();
+    const item = contentEl.children[1];
+    renderItem.mockClear();
+
+    scroll.offset = 1020;
+    simpleBar.scrollY();
+
+    expect(renderItem).toHaveBeenCalledTimes(1);
+    expect(renderItem).toHaveBeenCalledWith(58);
+    expect(contentEl.firstElementChild).toBe(item);
+    expect(contentEl.lastElementChild?.textContent).toBe('Item 58');
+    expect(contentEl.children.length).toBe(11);
+  });
+
+  test('should move the offsets after an item once it is measured', () => {
+    const simpleBar = createScrollingSimpleBar(virtualOptions(50000), scroll);
+
+    expect(simpleBar.getVirtualOffset(100)).toBe(2000);
+    expect(simpleBar.getVirtualTotalSize()).toBe(1000000);
+
+    simpleBar.setVirtualItemSize(10, 50);
+
+    expect(simpleBar.getVirtualOffset(10)).toBe(200);
+    expect(simpleBar.getVirtualOffset(100)).toBe(2030);
+    expect(simpleBar.getVirtualTotalSize()).toBe(1000030);
+    expect(simpleBar.getVirtualIndexAt(215)).toBe(10);
+    expect(simpleBar.getVirtualIndexAt(250)).toBe(11);
+  });
+
+  test('should size the scrollbar from the virtual total', () => {
+    const simpleBar = createScrollingSimpleBar(virtualOptions(100), scroll);
+
+    Object.defineProperty(simpleBar.axis.y.track.el, 'offsetHeight', {
+      value: 500,
+    });
+    simpleBar.axis.y.isOverflowing = true;
+
+    expect(simpleBar.getScrollbarSize('y')).toBe(125);
+
+    simpleBar.setVirtualItemCount(200);
+    simpleBar.axis.y.isOverflowing = true;
+
+    expect(simpleBar.getScrollbarSize('y')).toBe(62);
+  });
+
+  test('should restore the content and leave the virtual options untouched', () => {
+    const contentEl = document.querySelector(
+      '#simplebar .simplebar-content'
+    ) as HTMLElement;
+    const child = document.createElement('p');
+    contentEl.appendChild(child);
+
+    const simpleBar = createScrollingSimpleBar(virtualOptions(100), scroll);
+    const virtual = simpleBar.options.virtual as SimpleBarVirtualOptions;
+
+    expect(child.parentNode).toBe(null);
+
+    simpleBar.setVirtualItemCount(200);
+    expect(virtual.itemCount).toBe(100);
+    expect(simpleBar.options.virtual?.itemCount).toBe(200);
+
+    simpleBar.unMount();
+    expect(contentEl.childNodes.length).toBe(1);
+    expect(contentEl.firstChild).toBe(child);
+    expect(contentEl.style.paddingTop).toBe('');
+  });
+});
+
+describe('stick to end', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar({ stickToEnd: 'y' }, scroll);
+  });
+
+  test('should follow new content until the user scrolls up', () => {
+    const onStickChange = jest.fn();
+
+    simpleBar.on('stickchange', onStickChange);
+    simpleBar.recalculate();
+    simpleBar.scrollY();
+    expect(scroll.offset).toBe(900);
+
+    scroll.offset = 500;
+    simpleBar.scrollY();
+    expect(onStickChange).toHaveBeenCalledWith({
+      axis: 'y',
+      isStickingToEnd: false,
+    });
+
+    scroll.size = 2000;
+    simpleBar.recalculate();
+    expect(scroll.offset).toBe(500);
+    expect(simpleBar.isStickingToEnd('y')).toBe(false);
+    expect(simpleBar.isStickingToEnd('x')).toBe(false);
+
+    scroll.offset = 1900;
+    simpleBar.scrollY();
+    expect(simpleBar.isStickingToEnd('y')).toBe(true);
+
+    scroll.size = 3000;
+    simpleBar.recalculate();
+    expect(scroll.offset).toBe(2900);
+  });
+
+  test('should follow again once re-enabled', () => {
+    simpleBar.recalculate();
+    simpleBar.scrollY();
+    scroll.offset = 100;
+    simpleBar.scrollY();
+
+    simpleBar.stickToEnd('y');
+
+    expect(scroll.offset).toBe(900);
+    expect(simpleBar.isStickingToEnd('y')).toBe(true);
+  });
+});
+
+describe('scroll shadows', () => {
+  test('should toggle the can-scroll classes from the scroll offset', () => {
+    const scroll = { offset: 0, size: 1000 };
+    const simpleBar = createScrollingSimpleBar({}, scroll);
+
+    simpleBar.axis.y.isOverflowing = true;
+
+    simpleBar.scrollY();
+    expect(simpleBar.el.classList.contains('can-scroll-up')).toBe(false);
+    expect(simpleBar.el.classList.contains('can-scroll-down')).toBe(true);
+
+    scroll.offset = 900;
+    simpleBar.scrollY();
+    expect(simpleBar.el.classList.contains('can-scroll-up')).toBe(true);
+    expect(simpleBar.el.classList.contains('can-scroll-down')).toBe(false);
+  });
+
+  test('should generate shadow elements with custom class names', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { scrollShadows: true, classNames: { shadow: 'fade' } }
+    );
+
+    expect(simpleBar.el.querySelectorAll('.fade').length).toBe(4);
+    expect(simpleBar.el.querySelector('.fade.fade-top')).not.toBe(null);
+
+    simpleBar.unMount();
+
+    expect(simpleBar.el.querySelectorAll('.fade').length).toBe(0);
+  });
+});
+
+describe('smooth wheel', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar({ smoothWheel: true }, scroll);
+    simpleBar.axis.x.isOverflowing = false;
+    simpleBar.axis.y.isOverflowing = true;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should animate line deltas in pixels', () => {
+    const event = new WheelEvent('wheel', {
+      deltaY: 3,
+      deltaMode: 1,
+      cancelable: true,
+    });
+
+    simpleBar.contentWrapperEl?.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(scroll.offset).toBe(0);
+
+    jest.advanceTimersByTime(16);
+    expect(scroll.offset).toBeGreaterThan(0);
+    expect(scroll.offset).toBeLessThan(120);
+
+    jest.runAllTimers();
+    expect(scroll.offset).toBeCloseTo(120);
+  });
+
+  test('should still reach the target with a friction of 1', () => {
+    simpleBar.options.smoothWheelFriction = 1;
+    simpleBar.contentWrapperEl?.dispatchEvent(
+      new WheelEvent('wheel', { deltaY: 100, cancelable: true })
+    );
+
+    jest.runAllTimers();
+    expect(scroll.offset).toBeCloseTo(100);
+    expect(simpleBar.wheelAnimationId).toBeNull();
+  });
+
+  test('should let the parent scroll once the edge is reached', () => {
+    const event = new WheelEvent('wheel', { deltaY: -100, cancelable: true });
+
+    simpleBar.contentWrapperEl?.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+  });
+});
+
+describe('horizontal wheel', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 500 };
+    simpleBar = createScrollingSimpleBar(
+      { horizontalWheel: true },
+      scroll,
+      'x'
+    );
+    simpleBar.axis.x.isOverflowing = true;
+    simpleBar.axis.y.isOverflowing = false;
+  });
+
+  test('should scroll horizontally with a vertical wheel', () => {
+    const event = new WheelEvent('wheel', { deltaY: 150, cancelable: true });
+
+    simpleBar.contentWrapperEl?.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(scroll.offset).toBe(150);
+  });
+
+  test('should release the wheel at the horizontal edge', () => {
+    const event = new WheelEvent('wheel', { deltaY: 150, cancelable: true });
+
+    scroll.offset = 400;
+    simpleBar.contentWrapperEl?.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(scroll.offset).toBe(400);
+  });
+});
+
+describe('renderer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should render the geometry once per frame', () => {
+    const renderer = { render: jest.fn(), destroy: jest.fn() };
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { renderer }
+    );
+
+    Object.defineProperty(simpleBar.axis.y.track.el, 'offsetHeight', {
+      value: 200,
+    });
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.axis.y.scrollbar.size = 50;
+    renderer.render.mockClear();
+
+    simpleBar.positionScrollbar('y');
+    simpleBar.toggleTrackHover('y', true);
+    jest.advanceTimersByTime(16);
+
+    expect(renderer.render).toHaveBeenCalledTimes(1);
+    expect(renderer.render.mock.calls[0][0].y).toEqual({
+      trackSize: 200,
+      thumbSize: 50,
+      thumbOffset: 0,
+      percentage: 0,
+      isOverflowing: true,
+      isVisible: false,
+      isDragging: false,
+      isHovered: true,
+    });
+    expect(renderer.render.mock.calls[0][1]).toBe(simpleBar);
+
+    simpleBar.unMount();
+    expect(renderer.destroy).not.toHaveBeenCalled();
+
+    simpleBar.destroy();
+    expect(renderer.destroy).toHaveBeenCalledTimes(1);
+
+    renderer.render.mockClear();
+    simpleBar.requestRender();
+    jest.advanceTimersByTime(16);
+    expect(renderer.render).not.toHaveBeenCalled();
+  });
+
+  test('should render once the content stops overflowing', () => {
+    const renderer = { render: jest.fn() };
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { renderer }
+    );
+
+    jest.advanceTimersByTime(16);
+    renderer.render.mockClear();
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.recalculate();
+    jest.advanceTimersByTime(16);
+
+    expect(renderer.render).toHaveBeenCalledTimes(1);
+    expect(renderer.render.mock.calls[0][0].y.isOverflowing).toBe(false);
+
+    simpleBar.unMount();
+  });
+});
+
+describe('markers', () => {
+  test('should add, move and remove markers on the track', () => {
+    const simpleBar = createScrollingSimpleBar();
+    const track = simpleBar.axis.y.track.el as HTMLElement;
+
+    simpleBar.addMarker('error', { target: 250, className: 'error' });
+
+    const marker = track.querySelector(
+      '.simplebar-marker.error'
+    ) as HTMLElement;
+    expect(marker.style.top).toBe('25%');
+
+    simpleBar.updateMarker('error', { target: 500 });
+    expect(
+      (track.querySelector('.simplebar-marker') as HTMLElement).style.top
+    ).toBe('50%');
+
+    simpleBar.removeMarker('error');
+    expect(track.querySelector('.simplebar-marker')).toBe(null);
+  });
+
+  test('should scroll to the marker target on click', () => {
+    const simpleBar = createScrollingSimpleBar();
+    const spy = jest
+      .spyOn(simpleBar, 'scrollTo')
+      .mockReturnValue(Promise.resolve(true));
+
+    simpleBar.addMarker('comment', { target: 300 });
+    (
+      simpleBar.axis.y.track.el?.querySelector(
+        '.simplebar-marker'
+      ) as HTMLElement
+    ).click();
+
+    expect(spy).toHaveBeenCalledWith({ y: 300 }, {});
+  });
+});
+
+describe('foreign documents', () => {
+  test('should cache the RTL helpers per document and shadow root', () => {
+    const iframeDocument = document.implementation.createHTMLDocument('');
+    const iframeEl = iframeDocument.createElement('div');
+    const host = document.createElement('div');
+    const shadowEl = document.createElement('div');
+
+    iframeDocument.body.appendChild(iframeEl);
+    document.body.appendChild(host);
+    host.attachShadow({ mode: 'open' }).appendChild(shadowEl);
+
+    const rtlHelpers = SimpleBar.getRtlHelpers(document.body);
+
+    expect(SimpleBar.getRtlHelpers(iframeEl)).not.toBe(rtlHelpers);
+    expect(SimpleBar.getRtlHelpers(shadowEl)).not.toBe(rtlHelpers);
+    expect(SimpleBar.rtlHelpers.has(iframeDocument)).toBe(true);
+    expect(SimpleBar.rtlHelpers.has(host.shadowRoot as ShadowRoot)).toBe(true);
+  });
+
+  test('should style the probes of a shadow root inline', () => {
+    const host = document.createElement('div');
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    const shadowEl = document.createElement('div');
+    const appendChild = jest.spyOn(shadowRoot, 'appendChild');
+
+    document.body.appendChild(host);
+    shadowRoot.appendChild(shadowEl);
+    appendChild.mockClear();
+
+    SimpleBar.getRtlHelpers(shadowEl);
+    scrollbarWidth(shadowEl);
+
+    const [rtlProbe, widthProbe] = appendChild.mock.calls.map(
+      ([probe]) => probe as HTMLElement
+    );
+
+    expect(rtlProbe.style.direction).toBe('rtl');
+    expect(rtlProbe.style.overflowX).toBe('scroll');
+    expect(widthProbe.style.position).toBe('fixed');
+    expect(widthProbe.style.overflowY).toBe('scroll');
+  });
+});
+
+describe('custom element', () => {
+  beforeAll(() => {
+    defineSimpleBarElement();
+  });
+
+  test('should mount with the options of its attributes', () => {
+    document.body.innerHTML =
+      '<simple-bar auto-hide="false" keyboard-step="80"><p>Content</p></simple-bar>';
+
+    const element = document.querySelector('simple-bar') as SimpleBarElement;
+    const simpleBar = element.simpleBar as SimpleBar;
+
+    expect(simpleBar.options.autoHide).toBe(false);
+    expect(simpleBar.options.keyboardStep).toBe(80);
+    expect(simpleBar.getContentElement()?.textContent).toBe('Content');
+
+    simpleBar.setOptions({ snap: true, hideDelay: 500 });
+    element.setAttribute('auto-hide', 'true');
+    element.removeAttribute('keyboard-step');
+    expect(element.simpleBar).toBe(simpleBar);
+    expect(simpleBar.options.autoHide).toBe(true);
+    expect(simpleBar.options.keyboardStep).toBe(40);
+    expect(simpleBar.options.snap).toBe(true);
+    expect(simpleBar.options.hideDelay).toBe(500);
+
+    const unMount = jest.spyOn(element.simpleBar as SimpleBar, 'unMount');
+    element.remove();
+    expect(unMount).toHaveBeenCalled();
+    expect(element.simpleBar).toBe(null);
+  });
+
+  test('should build the scaffold in a shadow root and forward events', () => {
+    SimpleBarElement.styles = '.simplebar-track { position: absolute; }';
+    document.body.innerHTML = '<simple-bar shadow><p>Content</p></simple-bar>';
+    SimpleBarElement.styles = null;
+
+    const element = document.querySelector('simple-bar') as SimpleBarElement;
+    const onScroll = jest.fn();
+
+    expect(element.shadowRoot?.querySelector('style')?.textContent).toBe(
+      '.simplebar-track { position: absolute; }'
+    );
+
+    expect(
+      element.shadowRoot?.querySelector('.simplebar-content slot')
+    ).not.toBe(null);
+    expect(element.querySelector('p')?.parentNode).toBe(element);
+
+    element.addEventListener('simplebar-scroll', onScroll);
+    element.simpleBar?.emit('scroll', {
+      axis: 'y',
+      offset: 10,
+      percentage: 0.1,
+      direction: 'forward',
+    });
+
+    expect(onScroll.mock.calls[0][0].detail.offset).toBe(10);
+  });
+});
+
+describe('setOptions', () => {
+  test('should apply the changed options without remounting', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement
+    );
+    const scrollbar = simpleBar.axis.y.scrollbar.el as HTMLElement;
+    const recalculate = jest.spyOn(simpleBar, 'recalculate');
+
+    simpleBar.setOptions({ autoHide: false, scrollbarMinSize: 40 });
+
+    expect(scrollbar.classList.contains('visible')).toBe(true);
+    expect(simpleBar.axis.y.scrollbar.isVisible).toBe(true);
+    expect(simpleBar.options.scrollbarMinSize).toBe(40);
+    expect(recalculate).toHaveBeenCalled();
+
+    simpleBar.setOptions({ autoHide: true });
+
+    expect(scrollbar.classList.contains('visible')).toBe(false);
+  });
+
+  test('should remove every aria attribute of the scrollbars', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { ariaScrollbars: true }
+    );
+    const scrollbar = simpleBar.axis.y.scrollbar.el as HTMLElement;
+
+    simpleBar.setOptions({ ariaScrollbars: false });
+
+    expect(scrollbar.getAttributeNames()).toEqual(['class', 'style']);
+    expect(simpleBar.contentWrapperEl?.hasAttribute('id')).toBe(false);
+  });
+
+  test('should swap the changed class names', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement
+    );
+    const track = simpleBar.axis.y.track.el as HTMLElement;
+
+    simpleBar.setOptions({
+      classNames: { track: 'custom-track', vertical: 'custom-vertical' },
+    });
+
+    expect(track.className).toBe('custom-track custom-vertical');
+    expect(simpleBar.classNames.scrollbar).toBe('simplebar-scrollbar');
+    expect(simpleBar.options.classNames.track).toBe('custom-track');
+  });
+});
+
+describe('visibility', () => {
+  test('should hide the scrollbars as soon as the pointer leaves', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { visibility: 'leave' }
+    );
+    const scrollbar = simpleBar.axis.y.scrollbar.el as HTMLElement;
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.onMouseEnter();
+
+    expect(scrollbar.classList.contains('visible')).toBe(true);
+
+    simpleBar.onScroll();
+    simpleBar.onMouseLeave();
+
+    expect(scrollbar.classList.contains('visible')).toBe(false);
+  });
+
+  test('should show the scrollbars after showDelay while scrolling', () => {
+    jest.useFakeTimers();
+
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { visibility: 'scroll', showDelay: 200 }
+    );
+    const scrollbar = simpleBar.axis.y.scrollbar;
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.onScroll();
+
+    expect(scrollbar.isVisible).toBe(false);
+
+    jest.advanceTimersByTime(200);
+    expect(scrollbar.isVisible).toBe(true);
+
+    simpleBar.unMount();
+    jest.useRealTimers();
+  });
+
+  test('should hide the scrollbars after hideDelay and never show them with never', () => {
+    jest.useFakeTimers();
+
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement,
+      { hideDelay: 500, fadeOutDuration: 100 }
+    );
+    const scrollbar = simpleBar.axis.y.scrollbar.el as HTMLElement;
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.onScroll();
+
+    expect(scrollbar.classList.contains('visible')).toBe(true);
+
+    jest.advanceTimersByTime(400);
+    expect(scrollbar.classList.contains('visible')).toBe(true);
+
+    jest.advanceTimersByTime(100);
+    expect(scrollbar.classList.contains('visible')).toBe(false);
+    expect(scrollbar.style.transitionDuration).toBe('100ms');
+
+    simpleBar.setOptions({ fadeOutDuration: null });
+    expect(scrollbar.style.transitionDuration).toBe('');
+
+    simpleBar.setOptions({ visibility: 'never' });
+    simpleBar.onScroll();
+
+    expect(scrollbar.classList.contains('visible')).toBe(false);
+
+    simpleBar.unMount();
+    jest.useRealTimers();
+  });
+
+  test('should keep the dragged scrollbars visible', () => {
+    const simpleBar = new SimpleBar(
+      document.getElementById('simplebar') as HTMLElement
+    );
+
+    simpleBar.axis.y.isOverflowing = true;
+    simpleBar.onDragStart(new MouseEvent('pointerdown'), 'y');
+    simpleBar.showScrollbar('y');
+    simpleBar.requestHideScrollbars(0);
+
+    expect(simpleBar.getVisibility()).toBe('always');
+    expect(simpleBar.axis.y.scrollbar.isVisible).toBe(true);
+
+    simpleBar.unMount();
+  });
+});
+
+describe('scroll snapping', () => {
+  let simpleBar: SimpleBar;
+  let scroll: ScrollState;
+
+  beforeEach(() => {
+    scroll = { offset: 0, size: 1000 };
+    simpleBar = createScrollingSimpleBar(
+      { snap: { points: [0, 300, 600, 2000], duration: 0 } },
+      scroll
+    );
+  });
+
+  test('should snap programmatic scrolls and step between snap points', async () => {
+    const onSnapChange = jest.fn();
+
+    simpleBar.on('snapchange', onSnapChange);
+    expect(simpleBar.getSnapPoints()).toEqual([0, 300, 600, 900]);
+
+    await simpleBar.scrollTo({ y: 380 });
+    expect(scroll.offset).toBe(300);
+
+    simpleBar.scrollY();
+    expect(onSnapChange).toHaveBeenCalledWith({
+      axis: 'y',
+      index: 1,
+      offset: 300,
+    });
+
+    await simpleBar.scrollToNextSnap();
+    expect(scroll.offset).toBe(600);
+
+    await simpleBar.scrollToPreviousSnap();
+    await simpleBar.scrollToPreviousSnap();
+    expect(scroll.offset).toBe(0);
+    await expect(simpleBar.scrollToPreviousSnap()).resolves.toBe(false);
+
+    await simpleBar.scrollTo({ y: 380 }, { snap: false });
+    expect(scroll.offset).toBe(380);
+  });
+
+  test('should step to the next snap point with the keyboard and scrollBy', async () => {
+    const contentWrapperEl = simpleBar.contentWrapperEl as HTMLElement;
+
+    contentWrapperEl.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowDown' })
+    );
+    expect(scroll.offset).toBe(300);
+
+    await simpleBar.scrollBy({ y: 40 });
+    expect(scroll.offset).toBe(600);
+
+    contentWrapperEl.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowUp' })
+    );
+    expect(scroll.offset).toBe(300);
+  });
+
+  test('should suspend the CSS snapping while dragging and snap on release', () => {
+    jest.useFakeTimers();
+
+    const contentWrapperEl = simpleBar.contentWrapperEl as HTMLElement;
+
+    contentWrapperEl.style.scrollSnapType = 'y mandatory';
+    simpleBar.onDragStart(new MouseEvent('pointerdown'), 'y');
+    expect(contentWrapperEl.style.scrollSnapType).toBe('none');
+
+    scroll.offset = 520;
+    simpleBar.onEndDrag(new MouseEvent('pointerup'));
+
+    expect(scroll.offset).toBe(600);
+    expect(contentWrapperEl.style.scrollSnapType).toBe('y mandatory');
+
+    simpleBar.unMount();
+    jest.useRealTimers();
+  });
+});
+
+describe('nested SimpleBars with initiated DOM', () => {
+  let parent: SimpleBar;
+  let child: SimpleBar;
+
+  beforeEach(() => {
+    // Set up our document body
+    document.body.innerHTML = `<div id="simplebar-parent">${template}<div id="simplebar-child">${template}</div></div>`;
+
+    parent = new SimpleBar(
+      document.getElementById('simplebar-parent') as HTMLElement
+    );
+    child = new SimpleBar(
+      document.getElementById('simplebar-child') as HTMLElement
+    );
+
+    parent.initDOM(); // trigger DOM selectors
+  });
+
+  test('should select correct wrapper element', () => {
+    expect(parent.wrapperEl).not.toBe(child.wrapperEl);
+  });
+
+  test('should select correct content wrapper element', () => {
+    expect(parent.contentWrapperEl).not.toBe(child.contentWrapperEl);
+  });
+
+  test('should select correct content element', () => {
+    expect(parent.contentEl).not.toBe(child.contentEl);
+  });
+
+  test('should select correct offset element', () => {
+    expect(parent.offsetEl).not.toBe(child.offsetEl);
+  });
+
+  test('should select correct mask element', () => {
+    expect(parent.maskEl).not.toBe(child.maskEl);
+  });
+
+  test('should select correct placeholder element', () => {
+    expect(parent.placeholderEl).not.toBe(child.placeholderEl);
+  });
+
+  test('should select correct height auto observer wrapper element', () => {
+    expect(parent.heightAutoObserverWrapperEl).not.toBe(
+      child.heightAutoObserverWrapperEl
+    );
+  });
+
+  test('should select correct height auto observer element', () => {
+    expect(parent.heightAutoObserverEl).not.toBe(child.heightAutoObserverEl);
+  });
+
+  test('should select correct x track element', () => {
+    expect(parent.axis.x.track.el).not.toBe(child.axis.x.track.el);
+  });
+
+  test('should select correct y track element', () => {
+    expect(parent.axis.y.track.el).not.toBe(child.axis.y.track.el);
+  });
+
+  test('should expose the parent and children', () => {
+    expect(child.getParent()).toBe(parent);
+    expect(parent.getParent()).toBe(null);
+    expect(parent.getChildren()).toEqual([child]);
+  });
+
+  test('should leave pointer events on the tracks of the child to the child', () => {
+    const spy = jest.spyOn(parent, 'isWithinBounds');
+
+    child.axis.y.isOverflowing = true;
+    (child.axis.y.track.el as HTMLElement).dispatchEvent(
+      new MouseEvent('pointerdown', { bubbles: true })
+    );
+
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  test('should drag its own thumb over the content of the child', () => {
+    const onDragStart = jest.spyOn(parent, 'onDragStart');
+    const rect = (left: number) => ({ left, top: 0, width: 10, height: 100 });
+
+    parent.axis.y.isOverflowing = true;
+    child.axis.y.isOverflowing = true;
+    mockRect(parent.axis.y.track.el, rect(190));
+    mockRect(parent.axis.y.scrollbar.el, rect(190));
+    mockRect(child.axis.y.track.el, rect(90));
+
+    (child.getContentElement() as HTMLElement).dispatchEvent(
+      new MouseEvent('pointerdown', {
+        bubbles: true,
+        clientX: 195,
+        clientY: 50,
+      })
+    );
+
+    expect(onDragStart).toHaveBeenCalledWith(expect.anything(), 'y');
+
+    parent.unMount();
+  });
+
+  test('should only show the scrollbars of the innermost SimpleBar entered', () => {
+    jest.useFakeTimers();
+
+    parent.axis.y.isOverflowing = true;
+    child.axis.y.isOverflowing = true;
+
+    parent.el.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(parent.axis.y.scrollbar.isVisible).toBe(true);
+
+    child.el.dispatchEvent(new MouseEvent('mouseenter'));
+    expect(parent.axis.y.scrollbar.isVisible).toBe(false);
+    expect(child.axis.y.scrollbar.isVisible).toBe(true);
+
+    child.el.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(parent.axis.y.scrollbar.isVisible).toBe(true);
+
+    parent.unMount();
+    child.unMount();
+    jest.useRealTimers();
+  });
+
+  test('should leave the wheel to the child until it reaches its edge', () => {
+    parent.options.smoothWheel = true;
+    parent.axis.y.isOverflowing = true;
+    jest.spyOn(parent, 'getMaxScrollOffset').mockReturnValue(500);
+    child.axis.y.isOverflowing = true;
+    jest.spyOn(child, 'getMaxScrollOffset').mockReturnValue(500);
+
+    let childOffset = 0;
+    jest
+      .spyOn(child, 'getScrollOffset')
+      .mockImplementation((axis) => (axis === 'y' ? childOffset : 0));
+
+    const target = child.getContentElement() as HTMLElement;
+    let event = new WheelEvent('wheel', { deltaY: 100, cancelable: true });
+
+    target.dispatchEvent(event);
+    parent.onWheel(event);
+    expect(event.defaultPrevented).toBe(false);
+
+    childOffset = 500;
+    event = new WheelEvent('wheel', { deltaY: 100, cancelable: true });
+    target.dispatchEvent(event);
+    parent.onWheel(event);
+    expect(event.defaultPrevented).toBe(true);
   });
 });